@@ -0,0 +1,101 @@
+/**
+ * Signing audit log
+ *
+ * Every signing request made through ShakespeareSigner is appended to
+ * ~/.config/shakespeare/audit.jsonl, one JSON object per line, whether it was
+ * signed or refused.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfigDir } from './storage.js';
+import { PRIVATE_FILE_MODE, ensurePrivateDir } from './files.js';
+
+/**
+ * A single audit log entry
+ */
+export interface AuditEntry {
+  /** Unix timestamp (ms) when the request was made */
+  timestamp: number;
+  /** Profile whose identity was used */
+  profile: string;
+  /** Tool or integration that asked for the signature */
+  tool: string;
+  /** Event kind */
+  kind: number;
+  /** Signed event id, or null if the request was rejected */
+  eventId: string | null;
+  outcome: 'approved' | 'rejected';
+  /** Time from request to signature or rejection, in milliseconds */
+  latencyMs: number;
+  /** Why the request was rejected */
+  error?: string;
+}
+
+/**
+ * Filter for reading the audit log
+ */
+export interface AuditFilter {
+  /** Only entries at or after this Unix timestamp (ms) */
+  since?: number;
+  /** Only entries at or before this Unix timestamp (ms) */
+  until?: number;
+  kind?: number;
+  tool?: string;
+  outcome?: AuditEntry['outcome'];
+  /** Return at most this many of the most recent matching entries */
+  limit?: number;
+}
+
+/**
+ * Get the audit log path
+ */
+export function getAuditLogPath(): string {
+  return join(getConfigDir(), 'audit.jsonl');
+}
+
+/**
+ * Append an entry to the audit log.
+ * Never throws: a failed write must not break signing.
+ */
+export function appendAuditEntry(entry: AuditEntry): void {
+  try {
+    ensurePrivateDir(getConfigDir());
+    appendFileSync(getAuditLogPath(), JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: PRIVATE_FILE_MODE });
+  } catch {
+    // Ignore audit write errors
+  }
+}
+
+/**
+ * Read audit log entries matching a filter, oldest first
+ */
+export function readAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  const logFile = getAuditLogPath();
+  if (!existsSync(logFile)) {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(logFile, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // Skip a partially written line
+      continue;
+    }
+
+    if (filter.since !== undefined && entry.timestamp < filter.since) continue;
+    if (filter.until !== undefined && entry.timestamp > filter.until) continue;
+    if (filter.kind !== undefined && entry.kind !== filter.kind) continue;
+    if (filter.tool !== undefined && entry.tool !== filter.tool) continue;
+    if (filter.outcome !== undefined && entry.outcome !== filter.outcome) continue;
+
+    entries.push(entry);
+  }
+
+  return filter.limit !== undefined ? entries.slice(-filter.limit) : entries;
+}
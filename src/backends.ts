@@ -0,0 +1,108 @@
+/**
+ * Signer backends
+ *
+ * ShakespeareSigner delegates the actual signing to a backend:
+ * - nip46: a remote signer (Amber, Primal, nsec.app, ...) via BunkerSigner
+ * - local: a NIP-49 encrypted key (ncryptsec) for headless machines and CI,
+ *   decrypted in memory with a passphrase. The plaintext key is never
+ *   written to disk.
+ */
+
+import { finalizeEvent, getPublicKey } from 'nostr-tools';
+import { decrypt } from 'nostr-tools/nip49';
+import type { BunkerSigner } from 'nostr-tools/nip46';
+import type { EventTemplate, VerifiedEvent } from 'nostr-tools';
+
+/** Environment variable holding the passphrase for a local ncryptsec key */
+export const PASSPHRASE_ENV = 'SHAKESPEARE_PASSPHRASE';
+
+/** Environment variable holding an ncryptsec key, used when no credentials are stored */
+export const NCRYPTSEC_ENV = 'SHAKESPEARE_NCRYPTSEC';
+
+/** Available signer backend types */
+export type SignerBackendType = 'nip46' | 'local';
+
+/**
+ * A backend capable of signing events as the user
+ */
+export interface SignerBackend {
+  readonly type: SignerBackendType;
+  /** Sign an event template as the user */
+  signEvent(template: EventTemplate): Promise<VerifiedEvent>;
+  /** Release any connections or key material held by the backend */
+  close(): Promise<void>;
+}
+
+/**
+ * NIP-46 remote signer backend
+ */
+export class Nip46Backend implements SignerBackend {
+  readonly type = 'nip46' as const;
+
+  constructor(readonly bunkerSigner: BunkerSigner) {}
+
+  signEvent(template: EventTemplate): Promise<VerifiedEvent> {
+    return this.bunkerSigner.signEvent(template);
+  }
+
+  async close(): Promise<void> {
+    await this.bunkerSigner.close();
+  }
+}
+
+/**
+ * Local NIP-49 encrypted key backend
+ *
+ * Starts locked. It unlocks with SHAKESPEARE_PASSPHRASE on first use, or
+ * explicitly through unlock() when the user provides the passphrase.
+ */
+export class LocalKeyBackend implements SignerBackend {
+  readonly type = 'local' as const;
+  private secretKey: Uint8Array | null = null;
+
+  constructor(readonly ncryptsec: string) {}
+
+  /**
+   * Whether the key still needs a passphrase before it can sign
+   */
+  isLocked(): boolean {
+    return this.secretKey === null;
+  }
+
+  /**
+   * Decrypt the key with a passphrase
+   * @returns The public key (hex) of the decrypted key
+   */
+  unlock(passphrase: string): string {
+    try {
+      this.secretKey = decrypt(this.ncryptsec, passphrase);
+    } catch {
+      throw new Error('Failed to decrypt ncryptsec. Check the passphrase.');
+    }
+    return getPublicKey(this.secretKey);
+  }
+
+  /**
+   * Unlock with the passphrase from the environment, if one is set
+   * @returns The public key (hex), or null if no passphrase is available
+   */
+  unlockFromEnv(): string | null {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    return passphrase ? this.unlock(passphrase) : null;
+  }
+
+  async signEvent(template: EventTemplate): Promise<VerifiedEvent> {
+    if (this.isLocked()) {
+      this.unlockFromEnv();
+    }
+    if (!this.secretKey) {
+      throw new Error(`Local key is locked. Set ${PASSPHRASE_ENV} or run shakespeare_unlock with the passphrase.`);
+    }
+    return finalizeEvent(template, this.secretKey);
+  }
+
+  async close(): Promise<void> {
+    this.secretKey?.fill(0);
+    this.secretKey = null;
+  }
+}
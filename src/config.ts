@@ -0,0 +1,455 @@
+/**
+ * Plugin configuration
+ *
+ * Settings are read from two JSON files, the second overriding the first:
+ * - the global config: <config dir>/config.json
+ * - the project config: the nearest .shakespeare.json walking up from the
+ *   project directory
+ *
+ * The config dir is $SHAKESPEARE_CONFIG_DIR if set, otherwise
+ * $XDG_CONFIG_HOME/shakespeare (~/.config/shakespeare by default). It also
+ * holds credentials, the signing policy and the audit log.
+ *
+ * ```json
+ * {
+ *   "relays": ["wss://relay.example.com"],
+ *   "provider": { "baseURL": "https://ai.staging.example.com/v1", "signTimeout": 60 },
+ *   "providers": { "local": { "name": "Local gateway", "baseURL": "http://localhost:8080/v1" } },
+ *   "deploy": { "host": "staging.example.com" },
+ *   "ngit": { "graspServers": ["wss://git.example.com"] },
+ *   "init": { "templateRepo": "https://gitlab.com/me/template.git" },
+ *   "wallet": { "maxTopupSats": 10000, "dailyLimitSats": 50000 },
+ *   "relayAuth": { "relays": ["wss://private.example.com"] },
+ *   "outbox": { "indexers": ["wss://purplepag.es"] }
+ * }
+ * ```
+ *
+ * Every field is optional. Sections are merged field by field; lists replace
+ * the list they override. The wallet and relayAuth sections can only be set
+ * in the global config, so a cloned repository can't raise the spending
+ * limits or pick relays to authenticate to.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { xdgConfig } from 'xdg-basedir';
+import { isRecord } from './json.js';
+import { checkRelayList } from './relay-url.js';
+import type { SchemaIssue } from './schema.js';
+
+/** Environment variable overriding the config directory */
+export const CONFIG_DIR_ENV = 'SHAKESPEARE_CONFIG_DIR';
+
+/** Project-level config file name */
+export const PROJECT_CONFIG_FILE = '.shakespeare.json';
+
+/** Sections a project config may not set */
+const GLOBAL_ONLY_SECTIONS = ['wallet', 'relayAuth'];
+
+/**
+ * Resolved plugin configuration
+ */
+export interface ShakespeareConfig {
+  /** Relays for NIP-46 communication when none are given to shakespeare_connect */
+  relays: string[];
+  provider: {
+    /** Shakespeare AI API base URL */
+    baseURL: string;
+    /** Seconds to wait for the signer to sign a request's NIP-98 auth event */
+    signTimeout: number;
+  };
+  /**
+   * Additional Shakespeare-compatible providers, keyed by OpenCode provider id.
+   * They are authenticated with the same Nostr identity as Shakespeare AI.
+   */
+  providers: Record<string, CompatibleProvider>;
+  deploy: {
+    /** Shakespeare Deploy host */
+    host: string;
+  };
+  ngit: {
+    /** GRASP servers that host repositories published by shakespeare_ngit */
+    graspServers: string[];
+  };
+  init: {
+    /** Git repository cloned by shakespeare_init */
+    templateRepo: string;
+  };
+  wallet: {
+    /** Most sats shakespeare_topup pays from the wallet in one top-up */
+    maxTopupSats: number;
+    /** Most sats shakespeare_topup pays from the wallet in any 24 hours */
+    dailyLimitSats: number;
+  };
+  relayAuth: {
+    /**
+     * Relays the connected identity may authenticate to (NIP-42) when they
+     * ask, in addition to the GRASP servers
+     */
+    relays: string[];
+  };
+  outbox: {
+    /**
+     * Relays that index relay lists, queried alongside the signer relays so
+     * the user's relay list can be found even if they never wrote it there
+     */
+    indexers: string[];
+  };
+}
+
+/**
+ * A Shakespeare-compatible API: OpenAI-compatible and authenticated with NIP-98
+ */
+export interface CompatibleProvider {
+  /** Name shown in OpenCode (defaults to the provider id) */
+  name?: string;
+  /** API base URL */
+  baseURL: string;
+}
+
+/** Built-in configuration, used for anything the config files don't set */
+export const DEFAULT_CONFIG: ShakespeareConfig = {
+  relays: ['wss://relay.ditto.pub'],
+  provider: {
+    baseURL: 'https://ai.shakespeare.diy/v1',
+    signTimeout: 30,
+  },
+  providers: {},
+  deploy: {
+    host: 'shakespeare.wtf',
+  },
+  ngit: {
+    graspServers: ['wss://git.shakespeare.diy', 'wss://relay.ngit.dev'],
+  },
+  init: {
+    templateRepo: 'https://gitlab.com/soapbox-pub/mkstack.git',
+  },
+  wallet: {
+    maxTopupSats: 25_000,
+    dailyLimitSats: 100_000,
+  },
+  relayAuth: {
+    relays: [],
+  },
+  outbox: {
+    indexers: ['wss://purplepag.es', 'wss://relay.nostr.band'],
+  },
+};
+
+/** A config file's contents: any subset of the configuration */
+type ConfigLayer = {
+  relays?: string[];
+  provider?: Partial<ShakespeareConfig['provider']>;
+  providers?: Record<string, CompatibleProvider>;
+  deploy?: Partial<ShakespeareConfig['deploy']>;
+  ngit?: Partial<ShakespeareConfig['ngit']>;
+  init?: Partial<ShakespeareConfig['init']>;
+  wallet?: Partial<ShakespeareConfig['wallet']>;
+  relayAuth?: Partial<ShakespeareConfig['relayAuth']>;
+  outbox?: Partial<ShakespeareConfig['outbox']>;
+};
+
+/**
+ * Error for a config file that can't be read or fails validation
+ */
+export class ConfigError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: SchemaIssue[]
+  ) {
+    super(`Invalid config in ${file}: ${issues.map(i => `${i.field} ${i.problem}`).join('; ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Get the config directory
+ */
+export function getConfigDir(): string {
+  const override = process.env[CONFIG_DIR_ENV];
+  if (override) {
+    return resolve(override);
+  }
+  if (!xdgConfig) {
+    throw new Error(`Could not find the home directory. Set ${CONFIG_DIR_ENV} to the directory to keep the Shakespeare config in.`);
+  }
+  return join(xdgConfig, 'shakespeare');
+}
+
+/**
+ * Get the global config file path
+ */
+export function getGlobalConfigPath(): string {
+  return join(getConfigDir(), 'config.json');
+}
+
+/**
+ * Find the nearest project config file, walking up from a directory
+ */
+export function findProjectConfig(directory: string = process.cwd()): string | null {
+  let dir = resolve(directory);
+
+  while (true) {
+    const file = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(file)) {
+      return file;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Check a URL string's protocol
+ */
+function hasProtocol(value: unknown, protocols: string[]): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a field is an object of known keys, if present
+ */
+function checkSection(data: Record<string, unknown>, section: string, keys: string[], issues: SchemaIssue[]): Record<string, unknown> | null {
+  const value = data[section];
+  if (value === undefined) return null;
+  if (!isRecord(value)) {
+    issues.push({ field: section, problem: 'must be an object' });
+    return null;
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      issues.push({ field: `${section}.${key}`, problem: `is not a known setting (expected ${keys.join(', ')})` });
+    }
+  }
+  return value;
+}
+
+/**
+ * Check the additional providers, if present
+ */
+function checkProviders(value: unknown, issues: SchemaIssue[]): void {
+  if (value === undefined) return;
+  if (!isRecord(value)) {
+    issues.push({ field: 'providers', problem: 'must be an object keyed by provider id' });
+    return;
+  }
+
+  for (const [id, entry] of Object.entries(value)) {
+    const field = `providers.${id}`;
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(id) || id === 'shakespeare') {
+      issues.push({ field, problem: 'must be a lowercase provider id other than shakespeare (set the "provider" section for that one)' });
+    }
+    if (!isRecord(entry)) {
+      issues.push({ field, problem: 'must be an object with a baseURL' });
+      continue;
+    }
+    for (const key of Object.keys(entry)) {
+      if (key !== 'name' && key !== 'baseURL') {
+        issues.push({ field: `${field}.${key}`, problem: 'is not a known setting (expected name, baseURL)' });
+      }
+    }
+    const { name, baseURL } = entry;
+    if (!hasProtocol(baseURL, ['https:', 'http:'])) {
+      issues.push({ field: `${field}.baseURL`, problem: 'must be an http(s):// URL' });
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+      issues.push({ field: `${field}.name`, problem: 'must be a non-empty string' });
+    }
+  }
+}
+
+/**
+ * Validate one config file's contents
+ * @param global - Whether the file is the global config
+ * @throws ConfigError listing every invalid field
+ */
+function validateLayer(data: unknown, file: string, global: boolean): ConfigLayer {
+  if (!isRecord(data)) {
+    throw new ConfigError(file, [{ field: '(root)', problem: 'must be a JSON object' }]);
+  }
+
+  const layer = data;
+  const issues: SchemaIssue[] = [];
+  const sections = ['$schema', 'relays', 'provider', 'providers', 'deploy', 'ngit', 'init', 'wallet', 'relayAuth', 'outbox'];
+
+  for (const key of Object.keys(layer)) {
+    if (!sections.includes(key)) {
+      issues.push({ field: key, problem: `is not a known setting (expected ${sections.slice(1).join(', ')})` });
+    }
+  }
+
+  if (layer.relays !== undefined) {
+    checkRelayList(layer.relays, 'relays', issues);
+  }
+
+  const provider = checkSection(layer, 'provider', ['baseURL', 'signTimeout'], issues);
+  if (provider?.baseURL !== undefined && !hasProtocol(provider.baseURL, ['https:', 'http:'])) {
+    issues.push({ field: 'provider.baseURL', problem: 'must be an http(s):// URL' });
+  }
+  if (provider?.signTimeout !== undefined && (typeof provider.signTimeout !== 'number' || !(provider.signTimeout > 0))) {
+    issues.push({ field: 'provider.signTimeout', problem: 'must be a positive number of seconds' });
+  }
+
+  checkProviders(layer.providers, issues);
+
+  const deploy = checkSection(layer, 'deploy', ['host'], issues);
+  if (deploy?.host !== undefined && (typeof deploy.host !== 'string' || !/^[a-z0-9.-]+(:\d+)?$/i.test(deploy.host))) {
+    issues.push({ field: 'deploy.host', problem: 'must be a host name like shakespeare.wtf' });
+  }
+
+  const ngit = checkSection(layer, 'ngit', ['graspServers'], issues);
+  if (ngit?.graspServers !== undefined) {
+    checkRelayList(ngit.graspServers, 'ngit.graspServers', issues);
+  }
+
+  const init = checkSection(layer, 'init', ['templateRepo'], issues);
+  if (init?.templateRepo !== undefined && (typeof init.templateRepo !== 'string' || init.templateRepo.trim() === '')) {
+    issues.push({ field: 'init.templateRepo', problem: 'must be a git repository URL' });
+  }
+
+  const wallet = checkSection(layer, 'wallet', ['maxTopupSats', 'dailyLimitSats'], issues);
+  for (const key of ['maxTopupSats', 'dailyLimitSats']) {
+    const value = wallet?.[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      issues.push({ field: `wallet.${key}`, problem: 'must be a whole number of sats' });
+    }
+  }
+
+  if (!global) {
+    for (const section of GLOBAL_ONLY_SECTIONS) {
+      if (layer[section] !== undefined) {
+        issues.push({ field: section, problem: `can only be set in the global config (${getGlobalConfigPath()})` });
+      }
+    }
+  }
+
+  const relayAuth = checkSection(layer, 'relayAuth', ['relays'], issues);
+  // An empty list is fine: then only the GRASP servers are authenticated to
+  const emptyList = Array.isArray(relayAuth?.relays) && relayAuth.relays.length === 0;
+  if (relayAuth?.relays !== undefined && !emptyList) {
+    checkRelayList(relayAuth.relays, 'relayAuth.relays', issues);
+  }
+
+  const outbox = checkSection(layer, 'outbox', ['indexers'], issues);
+  // An empty list turns the indexers off
+  const noIndexers = Array.isArray(outbox?.indexers) && outbox.indexers.length === 0;
+  if (outbox?.indexers !== undefined && !noIndexers) {
+    checkRelayList(outbox.indexers, 'outbox.indexers', issues);
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(file, issues);
+  }
+  return layer as ConfigLayer;
+}
+
+/**
+ * Read and validate a config file, or return null if it doesn't exist
+ * @throws ConfigError if the file can't be read, parsed or validated
+ */
+function readLayer(file: string, global: boolean): ConfigLayer | null {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new ConfigError(file, [{ field: '(file)', problem: `cannot be read: ${error instanceof Error ? error.message : String(error)}` }]);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(file, [{ field: '(file)', problem: `is not valid JSON: ${error instanceof Error ? error.message : String(error)}` }]);
+  }
+  return validateLayer(data, file, global);
+}
+
+/**
+ * Merge a config layer over a configuration
+ */
+function mergeLayer(config: ShakespeareConfig, layer: ConfigLayer): ShakespeareConfig {
+  return {
+    relays: layer.relays ?? config.relays,
+    provider: { ...config.provider, ...layer.provider },
+    providers: { ...config.providers, ...layer.providers },
+    deploy: { ...config.deploy, ...layer.deploy },
+    ngit: { ...config.ngit, ...layer.ngit },
+    init: { ...config.init, ...layer.init },
+    wallet: { ...config.wallet, ...layer.wallet },
+    relayAuth: { ...config.relayAuth, ...layer.relayAuth },
+    outbox: { ...config.outbox, ...layer.outbox },
+  };
+}
+
+/**
+ * Get the config files that apply in a directory, global first
+ */
+export function getConfigFiles(directory: string = process.cwd()): string[] {
+  const files = [getGlobalConfigPath()];
+  const project = findProjectConfig(directory);
+  if (project && resolve(project) !== resolve(files[0])) {
+    files.push(project);
+  }
+  return files.filter(file => existsSync(file));
+}
+
+/**
+ * Load the configuration that applies in a directory
+ * @param directory - Project directory (defaults to the current directory)
+ * @throws ConfigError if a config file is invalid
+ */
+export function loadConfig(directory: string = process.cwd()): ShakespeareConfig {
+  const globalFile = resolve(getGlobalConfigPath());
+  let config = DEFAULT_CONFIG;
+  for (const file of getConfigFiles(directory)) {
+    const layer = readLayer(file, resolve(file) === globalFile);
+    if (layer) {
+      config = mergeLayer(config, layer);
+    }
+  }
+  return config;
+}
+
+/**
+ * Load the global configuration alone, ignoring any project config. Used for
+ * settings a project must not be able to change.
+ * @throws ConfigError if the global config file is invalid
+ */
+export function loadGlobalConfig(): ShakespeareConfig {
+  const layer = readLayer(getGlobalConfigPath(), true);
+  return layer ? mergeLayer(DEFAULT_CONFIG, layer) : DEFAULT_CONFIG;
+}
+
+/**
+ * Load the configuration that applies in a directory, or the built-in
+ * settings if a config file is invalid. For callers that can't report the
+ * error; shakespeare_status shows it.
+ * @param directory - Project directory (defaults to the current directory)
+ */
+export function loadConfigOrDefault(directory: string = process.cwd()): ShakespeareConfig {
+  try {
+    return loadConfig(directory);
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
+
+/**
+ * Load the global configuration alone, or the built-in settings if it is
+ * invalid
+ */
+export function loadGlobalConfigOrDefault(): ShakespeareConfig {
+  try {
+    return loadGlobalConfig();
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Shakespeare AI credits
+ *
+ * Reads the account balance and recent spend, and requests Lightning
+ * invoices for more credits, from the Shakespeare AI API, authenticated with
+ * the provider's NIP-98 fetch. Amounts are in USD; responses that don't have
+ * these shapes are reported as errors rather than guessed at:
+ *
+ * - GET /credits: `{ "balance": 12.5, "total_credits": 20, "total_usage": 7.5 }`
+ * - GET /usage?since=<unix seconds>: `{ "data": [{ "created": 1735689600,
+ *   "model": "...", "cost": 0.01, "usage": { "prompt_tokens": 1200,
+ *   "completion_tokens": 300 } }] }`
+ * - POST /credits/invoice `{ "amount": 5 }`: `{ "invoice": "lnbc...", "amount": 5,
+ *   "sats": 5000 }`
+ */
+
+import { isRecord } from './json.js';
+
+/**
+ * Current account balance
+ */
+export interface CreditBalance {
+  /** Credits left, in USD */
+  balance: number;
+  /** Credits added over the account's lifetime, in USD */
+  totalCredits: number;
+  /** Credits spent over the account's lifetime, in USD */
+  totalUsage: number;
+}
+
+/**
+ * One billed request
+ */
+export interface UsageRecord {
+  /** Unix timestamp (ms) */
+  timestamp: number;
+  model: string;
+  /** Cost in USD */
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Spend for one model on one day
+ */
+export interface UsageGroup {
+  /** UTC date, YYYY-MM-DD */
+  day: string;
+  model: string;
+  requests: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+type Data = Record<string, unknown>;
+
+/**
+ * Error for a response that doesn't have the documented shape
+ */
+function unexpectedResponse(endpoint: string, problem: string): Error {
+  return new Error(`Unexpected response from ${endpoint}: ${problem}`);
+}
+
+/**
+ * Read a required number field
+ * @throws if the field is missing or not a finite number
+ */
+function requireNumber(body: Data, field: string, endpoint: string): number {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw unexpectedResponse(endpoint, `${field} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * GET a JSON endpoint, throwing on an error status
+ */
+async function getJson(fetchFn: typeof fetch, url: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetchFn(url, { signal });
+  await assertOk(response, url);
+  return response.json();
+}
+
+/**
+ * Throw on an error status, with the start of the response body
+ */
+async function assertOk(response: Response, url: string): Promise<void> {
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).trim().slice(0, 200);
+    throw new Error(`HTTP ${response.status} from ${url}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+/**
+ * Fetch the account balance
+ * @throws if the response isn't `{ balance, total_credits, total_usage }`
+ */
+export async function fetchBalance(fetchFn: typeof fetch, baseURL: string, signal?: AbortSignal): Promise<CreditBalance> {
+  const body = await getJson(fetchFn, `${baseURL}/credits`, signal);
+  if (!isRecord(body)) {
+    throw unexpectedResponse('/credits', 'expected a JSON object');
+  }
+
+  return {
+    balance: requireNumber(body, 'balance', '/credits'),
+    totalCredits: requireNumber(body, 'total_credits', '/credits'),
+    totalUsage: requireNumber(body, 'total_usage', '/credits'),
+  };
+}
+
+/**
+ * Parse one entry of the /usage list
+ * @throws if the entry doesn't have the documented shape
+ */
+function parseUsageRecord(value: unknown, index: number): UsageRecord {
+  const endpoint = `/usage (data[${index}])`;
+  if (!isRecord(value) || !isRecord(value.usage)) {
+    throw unexpectedResponse(endpoint, 'expected an object with a usage object');
+  }
+  if (typeof value.model !== 'string') {
+    throw unexpectedResponse(endpoint, 'model must be a string');
+  }
+
+  return {
+    // Unix seconds, like the created field of /models
+    timestamp: requireNumber(value, 'created', endpoint) * 1000,
+    model: value.model,
+    cost: requireNumber(value, 'cost', endpoint),
+    inputTokens: requireNumber(value.usage, 'prompt_tokens', endpoint),
+    outputTokens: requireNumber(value.usage, 'completion_tokens', endpoint),
+  };
+}
+
+/**
+ * Fetch billed requests since a time
+ * @param since - Unix timestamp (ms)
+ * @throws if the response isn't a `{ data: [...] }` list of usage entries
+ */
+export async function fetchUsage(fetchFn: typeof fetch, baseURL: string, since: number, signal?: AbortSignal): Promise<UsageRecord[]> {
+  const url = `${baseURL}/usage?since=${Math.floor(since / 1000)}`;
+  const body = await getJson(fetchFn, url, signal);
+  if (!isRecord(body) || !Array.isArray(body.data)) {
+    throw unexpectedResponse('/usage', 'expected a JSON object with a data list');
+  }
+
+  return body.data
+    .map(parseUsageRecord)
+    .filter(record => record.timestamp >= since);
+}
+
+/**
+ * Group usage by UTC day and model, newest day first
+ */
+export function groupUsage(records: UsageRecord[]): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const record of records) {
+    const day = new Date(record.timestamp).toISOString().slice(0, 10);
+    const key = `${day}\u0000${record.model}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { day, model: record.model, requests: 0, cost: 0, inputTokens: 0, outputTokens: 0 };
+      groups.set(key, group);
+    }
+    group.requests++;
+    group.cost += record.cost;
+    group.inputTokens += record.inputTokens;
+    group.outputTokens += record.outputTokens;
+  }
+
+  return [...groups.values()].sort((a, b) => b.day.localeCompare(a.day) || b.cost - a.cost);
+}
+
+/**
+ * A Lightning invoice for buying credits
+ */
+export interface CreditInvoice {
+  /** BOLT-11 invoice */
+  invoice: string;
+  /** Credits added once paid, in USD */
+  amount: number;
+  /** Price quoted for the credits, in sats: what the invoice must charge */
+  sats: number;
+}
+
+/**
+ * Request a Lightning invoice for credits
+ * @param amount - Credits to buy, in USD
+ * @throws if the response isn't `{ invoice, amount, sats }`
+ */
+export async function requestInvoice(fetchFn: typeof fetch, baseURL: string, amount: number, signal?: AbortSignal): Promise<CreditInvoice> {
+  const url = `${baseURL}/credits/invoice`;
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ amount }),
+    signal,
+  });
+  await assertOk(response, url);
+
+  const body: unknown = await response.json();
+  if (!isRecord(body)) {
+    throw unexpectedResponse('/credits/invoice', 'expected a JSON object');
+  }
+  if (typeof body.invoice !== 'string' || body.invoice.length === 0) {
+    throw unexpectedResponse('/credits/invoice', 'invoice must be a BOLT-11 invoice string');
+  }
+  return {
+    invoice: body.invoice,
+    amount: requireNumber(body, 'amount', '/credits/invoice'),
+    sats: requireNumber(body, 'sats', '/credits/invoice'),
+  };
+}
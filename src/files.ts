@@ -0,0 +1,190 @@
+/**
+ * Safe file access for credentials
+ *
+ * Files holding keys are written atomically (temp file + rename) with mode
+ * 0600 inside 0700 directories, so a crash never leaves a half-written file
+ * and other users on the machine can't read them. Read-modify-write cycles
+ * are serialized across processes with a lock file next to the target, since
+ * several OpenCode instances may share the same config directory.
+ */
+
+import { chmodSync, closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, rmSync, writeSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import { dirname } from 'node:path';
+
+/** Mode for directories holding credentials */
+export const PRIVATE_DIR_MODE = 0o700;
+
+/** Mode for files holding credentials */
+export const PRIVATE_FILE_MODE = 0o600;
+
+/** How long to wait for another process to release a lock */
+const LOCK_TIMEOUT_MS = 5000;
+
+/** Locks older than this are assumed to be left over from a crashed process */
+const LOCK_STALE_MS = 30 * 1000;
+
+/** Delay between attempts to take a lock */
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Result of reading a JSON file
+ *
+ * - missing: the file doesn't exist
+ * - corrupt: the file exists but isn't valid JSON
+ * - unreadable: the file exists but couldn't be read (e.g. permissions)
+ */
+export type LoadResult<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'missing' }
+  | { status: 'corrupt'; error: string }
+  | { status: 'unreadable'; error: string };
+
+/**
+ * Error thrown when a lock can't be taken in time
+ */
+export class LockTimeoutError extends Error {
+  constructor(readonly lockPath: string) {
+    super(`Timed out waiting for ${lockPath}. If no other OpenCode instance is running, delete this file.`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * Get a readable message from a caught error
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Create a directory (and parents) readable only by the current user.
+ * Tightens the mode of a directory that already exists.
+ */
+export function ensurePrivateDir(dir: string): void {
+  mkdirSync(dir, { recursive: true, mode: PRIVATE_DIR_MODE });
+  try {
+    chmodSync(dir, PRIVATE_DIR_MODE);
+  } catch {
+    // Not our directory (or the platform ignores modes), leave it as is
+  }
+}
+
+/**
+ * Read and parse a JSON file, telling apart why it couldn't be loaded
+ */
+export function readJsonFile<T>(path: string): LoadResult<T> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { status: 'missing' };
+    }
+    return { status: 'unreadable', error: errorMessage(error) };
+  }
+
+  try {
+    return { status: 'ok', data: JSON.parse(text) as T };
+  } catch (error) {
+    return { status: 'corrupt', error: errorMessage(error) };
+  }
+}
+
+/**
+ * Get a unique temp file path next to a target file
+ */
+function tempPath(path: string): string {
+  return `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+}
+
+/**
+ * Atomically replace a file's contents. The file is created with mode 0600.
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  ensurePrivateDir(dirname(path));
+  const tmp = tempPath(path);
+  try {
+    const fd = openSync(tmp, 'wx', PRIVATE_FILE_MODE);
+    try {
+      writeSync(fd, data);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmp, path);
+  } catch (error) {
+    rmSync(tmp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Atomically replace a file's contents (async). The file is created with mode 0600.
+ */
+export async function writeFileAtomicAsync(path: string, data: string): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: PRIVATE_DIR_MODE });
+  const tmp = tempPath(path);
+  try {
+    const handle = await fs.open(tmp, 'wx', PRIVATE_FILE_MODE);
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tmp, path);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Try once to take a lock. Removes a stale lock left by a crashed process.
+ * @returns true if the lock was taken
+ */
+async function tryLock(lockPath: string): Promise<boolean> {
+  try {
+    await (await fs.open(lockPath, 'wx', PRIVATE_FILE_MODE)).close();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  try {
+    if (Date.now() - (await fs.stat(lockPath)).mtimeMs > LOCK_STALE_MS) {
+      await fs.unlink(lockPath);
+    }
+  } catch {
+    // Released (or removed) by someone else in the meantime
+  }
+  return false;
+}
+
+/**
+ * Run a function while holding the lock for a file. Waits for another
+ * process's lock without blocking the event loop.
+ * @throws LockTimeoutError if another process holds the lock for too long
+ */
+export async function withFileLock<T>(path: string, fn: () => T | Promise<T>): Promise<T> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: PRIVATE_DIR_MODE });
+  const lockPath = `${path}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (!(await tryLock(lockPath))) {
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
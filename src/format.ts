@@ -0,0 +1,12 @@
+/**
+ * Formatting of values shown in tool output
+ */
+
+/**
+ * Round a USD amount for display
+ */
+export function usd(amount: number): number;
+export function usd(amount: number | null): number | null;
+export function usd(amount: number | null): number | null {
+  return amount === null ? null : Math.round(amount * 1e4) / 1e4;
+}
@@ -0,0 +1,102 @@
+/**
+ * Shakespeare AI image generation
+ *
+ * Calls the OpenAI-compatible image endpoint (POST /images/generations)
+ * with the provider's NIP-98 fetch.
+ */
+
+/** Image file formats the tool can ask for */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * Image generation request
+ */
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  /** WIDTHxHEIGHT, e.g. 1024x1024 */
+  size: string;
+  format: ImageFormat;
+}
+
+/**
+ * A generated image
+ */
+export interface GeneratedImage {
+  data: Buffer;
+  /** Format of the returned bytes, which may differ from the one asked for */
+  format: ImageFormat | null;
+  /** Cost in USD as reported by the API, if it reports one */
+  cost: number | null;
+  /** Prompt the model actually used, if it rewrote it */
+  revisedPrompt: string | null;
+}
+
+/**
+ * Detect an image format from its first bytes
+ */
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') return 'webp';
+  return null;
+}
+
+/**
+ * Generate an image
+ * @throws Error if the API refuses or returns no image
+ */
+export async function requestImage(
+  fetchFn: typeof fetch,
+  baseURL: string,
+  request: ImageRequest,
+  signal?: AbortSignal
+): Promise<GeneratedImage> {
+  const url = `${baseURL}/images/generations`;
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: request.model,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size,
+      output_format: request.format,
+      response_format: 'b64_json',
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).trim().slice(0, 200);
+    throw new Error(`HTTP ${response.status} from ${url}${detail ? `: ${detail}` : ''}`);
+  }
+
+  const body = await response.json() as {
+    data?: Array<{ b64_json?: string; url?: string; revised_prompt?: string }>;
+    usage?: { cost?: unknown };
+  };
+  const image = body.data?.[0];
+
+  let data: Buffer;
+  if (image?.b64_json) {
+    data = Buffer.from(image.b64_json, 'base64');
+  } else if (image?.url) {
+    // Some models only return a (signed) URL
+    const download = await fetch(image.url, { signal });
+    if (!download.ok) {
+      throw new Error(`HTTP ${download.status} downloading the generated image`);
+    }
+    data = Buffer.from(await download.arrayBuffer());
+  } else {
+    throw new Error('The API returned no image');
+  }
+
+  const cost = body.usage?.cost;
+  return {
+    data,
+    format: detectImageFormat(data),
+    cost: typeof cost === 'number' && Number.isFinite(cost) ? cost : null,
+    revisedPrompt: image.revised_prompt ?? null,
+  };
+}
@@ -18,9 +18,22 @@ import { pubkey } from './tools/pubkey.js';
 import { init } from './tools/init.js';
 import { deploy } from './tools/deploy.js';
 import { ngit } from './tools/ngit.js';
+import { profiles } from './tools/profiles.js';
+import { switchProfile } from './tools/switch-profile.js';
+import { removeProfile } from './tools/remove-profile.js';
+import { unlock } from './tools/unlock.js';
+import { audit } from './tools/audit.js';
+import { publish } from './tools/publish.js';
+import { query } from './tools/query.js';
+import { models } from './tools/models.js';
+import { credits } from './tools/credits.js';
+import { wallet } from './tools/wallet.js';
+import { topup } from './tools/topup.js';
+import { usage } from './tools/usage.js';
+import { generateImage } from './tools/generate-image.js';
 
 // Import provider integration
-import { configureShakespeareProvider, shakespeareAuth } from './provider.js';
+import { configureShakespeareProvider, shakespeareAuth, trackShakespeareSession } from './provider.js';
 
 /**
  * Shakespeare Plugin for OpenCode
@@ -28,9 +41,11 @@ import { configureShakespeareProvider, shakespeareAuth } from './provider.js';
  * Provides:
  * - Shakespeare AI provider with NIP-98 authentication (no nsec required)
  * - NIP-46 remote signing (connect via QR code with Amber/Primal)
+ * - Local NIP-49 encrypted key signing for headless use
  * - Project initialization with mkstack framework
  * - Shakespeare Deploy for static sites
  * - Nostr Git (ngit) for decentralized git hosting
+ * - Named identity profiles with per-project pinning
  * 
  * Usage in opencode.json:
  * ```json
@@ -48,6 +63,9 @@ export const ShakespearePlugin: Plugin = async (_input: PluginInput) => {
     
     // Register NIP-98 auth for Shakespeare provider
     auth: shakespeareAuth,
+
+    // Attribute Shakespeare AI usage to sessions and agents
+    'chat.headers': trackShakespeareSession,
     
     // Register custom tools
     tool: {
@@ -56,10 +74,23 @@ export const ShakespearePlugin: Plugin = async (_input: PluginInput) => {
       shakespeare_status: status,
       shakespeare_disconnect: disconnect,
       shakespeare_sign_event: sign,
+      shakespeare_publish_event: publish,
+      shakespeare_query: query,
       shakespeare_get_pubkey: pubkey,
       shakespeare_init: init,
       shakespeare_deploy: deploy,
       shakespeare_ngit: ngit,
+      shakespeare_list_profiles: profiles,
+      shakespeare_switch_profile: switchProfile,
+      shakespeare_remove_profile: removeProfile,
+      shakespeare_unlock: unlock,
+      shakespeare_audit: audit,
+      shakespeare_models: models,
+      shakespeare_credits: credits,
+      shakespeare_wallet: wallet,
+      shakespeare_topup: topup,
+      shakespeare_usage: usage,
+      shakespeare_generate_image: generateImage,
     },
   };
 };
@@ -0,0 +1,10 @@
+/**
+ * Helpers for checking parsed JSON
+ */
+
+/**
+ * Check that a value is a JSON object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,390 @@
+/**
+ * Shakespeare AI usage ledger
+ *
+ * The provider fetch tees every completion response and records its `usage`
+ * block (from the JSON body, or the last streamed chunk that has one) to
+ * ~/.config/shakespeare/usage.jsonl, one JSON object per line, tagged with
+ * the OpenCode session, agent and project that made the request and the
+ * provider that served it. Costs are worked out when summarising, from the
+ * pricing metadata of each provider's models.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfigDir } from './config.js';
+import { PRIVATE_FILE_MODE, ensurePrivateDir } from './files.js';
+import { isRecord } from './json.js';
+import type { ModelConfig } from './models.js';
+
+/**
+ * A single completion request
+ */
+export interface UsageEntry {
+  /** Unix timestamp (ms) when the response finished */
+  timestamp: number;
+  /** Profile whose identity paid for the request */
+  profile: string;
+  /** OpenCode session, or null if the request came from outside a session */
+  sessionId: string | null;
+  /** OpenCode agent, e.g. build or plan */
+  agent: string | null;
+  /** Project directory */
+  project: string;
+  /** OpenCode provider id: Shakespeare AI or a Shakespeare-compatible provider */
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from the cache (included in promptTokens) */
+  cachedTokens: number;
+  /** Cost in USD as reported by the API, if it reports one */
+  cost: number | null;
+}
+
+/**
+ * Filter for reading the ledger
+ */
+export interface UsageFilter {
+  /** Only entries at or after this Unix timestamp (ms) */
+  since?: number;
+  /** Only entries at or before this Unix timestamp (ms) */
+  until?: number;
+  sessionId?: string;
+  project?: string;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Totals for a group of entries
+ */
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  /** Cost in USD, or null if no entry in the group could be priced */
+  cost: number | null;
+  /** Requests that couldn't be priced (no reported cost or pricing metadata) */
+  unpriced: number;
+}
+
+/** What groups are keyed on */
+export type UsageGroupBy = 'session' | 'project' | 'provider' | 'model' | 'agent';
+
+/** Finds the pricing metadata of an entry's model at its provider */
+export type UsagePricing = (entry: UsageEntry) => ModelConfig['cost'] | undefined;
+
+/** Provider of entries written before the ledger recorded providers */
+const LEGACY_PROVIDER = 'shakespeare';
+
+/**
+ * Where a request came from: the OpenCode session and agent
+ */
+export interface RequestContext {
+  sessionId: string | null;
+  agent: string | null;
+}
+
+/**
+ * Headers carrying the request context from the chat.headers hook to the
+ * provider fetch, which removes them before the request is sent. OpenCode
+ * doesn't pass the session to the provider's fetch, and several sessions
+ * (or subagents) can be making requests at once.
+ */
+const SESSION_HEADER = 'x-shakespeare-session';
+const AGENT_HEADER = 'x-shakespeare-agent';
+
+/**
+ * Get the headers that tag a request with its session and agent
+ */
+export function requestContextHeaders(context: RequestContext): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (context.sessionId) headers[SESSION_HEADER] = context.sessionId;
+  if (context.agent) headers[AGENT_HEADER] = context.agent;
+  return headers;
+}
+
+/**
+ * Read a request's session and agent, removing the headers that carried them
+ */
+export function takeRequestContext(headers: Headers): RequestContext {
+  const context = { sessionId: headers.get(SESSION_HEADER), agent: headers.get(AGENT_HEADER) };
+  headers.delete(SESSION_HEADER);
+  headers.delete(AGENT_HEADER);
+  return context;
+}
+
+/**
+ * Get the usage ledger path
+ */
+export function getUsageLedgerPath(): string {
+  return join(getConfigDir(), 'usage.jsonl');
+}
+
+/**
+ * Append an entry to the ledger.
+ * Never throws: a failed write must not break a completion.
+ */
+export function appendUsageEntry(entry: UsageEntry): void {
+  try {
+    ensurePrivateDir(getConfigDir());
+    appendFileSync(getUsageLedgerPath(), JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: PRIVATE_FILE_MODE });
+  } catch {
+    // Ignore ledger write errors
+  }
+}
+
+/**
+ * Read ledger entries matching a filter, oldest first
+ */
+export function readUsageLedger(filter: UsageFilter = {}): UsageEntry[] {
+  const ledgerFile = getUsageLedgerPath();
+  if (!existsSync(ledgerFile)) {
+    return [];
+  }
+
+  const entries: UsageEntry[] = [];
+  for (const line of readFileSync(ledgerFile, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: UsageEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // Skip a partially written line
+      continue;
+    }
+    entry.provider ??= LEGACY_PROVIDER;
+
+    if (filter.since !== undefined && entry.timestamp < filter.since) continue;
+    if (filter.until !== undefined && entry.timestamp > filter.until) continue;
+    if (filter.sessionId !== undefined && entry.sessionId !== filter.sessionId) continue;
+    if (filter.project !== undefined && entry.project !== filter.project) continue;
+    if (filter.provider !== undefined && entry.provider !== filter.provider) continue;
+    if (filter.model !== undefined && entry.model !== filter.model) continue;
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Usage fields of an OpenAI-compatible response
+ */
+interface ParsedUsage {
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  cost: number | null;
+}
+
+/**
+ * Read the usage block of a completion response (or one streamed chunk)
+ */
+function parseUsage(body: unknown): ParsedUsage | null {
+  if (!isRecord(body) || !isRecord(body.usage)) return null;
+  const { model, usage } = body;
+
+  const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+  const details = isRecord(usage.prompt_tokens_details) ? usage.prompt_tokens_details : {};
+  return {
+    model: typeof model === 'string' ? model : null,
+    promptTokens: count(usage.prompt_tokens),
+    completionTokens: count(usage.completion_tokens),
+    cachedTokens: count(details.cached_tokens),
+    cost: typeof usage.cost === 'number' && Number.isFinite(usage.cost) ? usage.cost : null,
+  };
+}
+
+/**
+ * Follows a server-sent event stream chunk by chunk, keeping only the last
+ * usage block and model seen, so the stream never has to be held in memory
+ */
+export class StreamUsageReader {
+  private partial = '';
+  private usage: ParsedUsage | null = null;
+  private model: string | null = null;
+
+  /**
+   * Feed the next piece of the stream
+   */
+  push(text: string): void {
+    const lines = (this.partial + text).split('\n');
+    this.partial = lines.pop() ?? '';
+    for (const line of lines) {
+      this.readLine(line);
+    }
+  }
+
+  /**
+   * Finish the stream and get the last usage block
+   */
+  finish(): ParsedUsage | null {
+    this.readLine(this.partial);
+    this.partial = '';
+    return this.usage && { ...this.usage, model: this.usage.model ?? this.model };
+  }
+
+  private readLine(line: string): void {
+    const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+    if (!data || data === '[DONE]') return;
+
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (isRecord(chunk) && typeof chunk.model === 'string') {
+      this.model = chunk.model;
+    }
+    this.usage = parseUsage(chunk) ?? this.usage;
+  }
+}
+
+/**
+ * Find the usage in a response body: a JSON object, or server-sent events
+ * read as they arrive, where the last chunk with a usage block wins
+ */
+async function readUsage(body: ReadableStream<Uint8Array>, contentType: string | null): Promise<ParsedUsage | null> {
+  if (contentType?.includes('application/json')) {
+    try {
+      return parseUsage(JSON.parse(await new Response(body).text()));
+    } catch {
+      return null;
+    }
+  }
+
+  const usage = new StreamUsageReader();
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    usage.push(decoder.decode(value, { stream: true }));
+  }
+  usage.push(decoder.decode());
+  return usage.finish();
+}
+
+/**
+ * Tee a completion response and record its usage once the body has been read.
+ * Returns the response to hand to the caller.
+ */
+export function recordResponseUsage(
+  response: Response,
+  details: { profile: string; provider: string; model: string | null; context: RequestContext }
+): Response {
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  const { context } = details;
+  const project = process.cwd();
+  const [forCaller, forLedger] = response.body.tee();
+
+  readUsage(forLedger, response.headers.get('content-type')).then(usage => {
+    if (!usage) return;
+    appendUsageEntry({
+      timestamp: Date.now(),
+      profile: details.profile,
+      sessionId: context.sessionId,
+      agent: context.agent,
+      project,
+      provider: details.provider,
+      model: details.model ?? usage.model ?? 'unknown',
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedTokens: usage.cachedTokens,
+      cost: usage.cost,
+    });
+  }).catch(() => {
+    // The caller aborted the stream; there is no usage to record
+  });
+
+  return new Response(forCaller, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Work out an entry's cost: the cost reported by the API, otherwise the
+ * token counts priced with the model's metadata
+ */
+export function priceEntry(entry: UsageEntry, pricing: ModelConfig['cost'] | undefined): number | null {
+  if (entry.cost !== null) return entry.cost;
+  if (!pricing) return null;
+
+  const uncached = entry.promptTokens - entry.cachedTokens;
+  const cacheRate = pricing.cache_read ?? pricing.input;
+  return (uncached * pricing.input + entry.cachedTokens * cacheRate + entry.completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Start an empty summary
+ */
+function emptySummary(key: string): UsageSummary {
+  return { key, requests: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, cost: null, unpriced: 0 };
+}
+
+/**
+ * Add an entry to a summary
+ */
+function addToSummary(summary: UsageSummary, entry: UsageEntry, pricing: UsagePricing): void {
+  summary.requests++;
+  summary.promptTokens += entry.promptTokens;
+  summary.completionTokens += entry.completionTokens;
+  summary.cachedTokens += entry.cachedTokens;
+
+  const cost = priceEntry(entry, pricing(entry));
+  if (cost === null) {
+    summary.unpriced++;
+  } else {
+    summary.cost = (summary.cost ?? 0) + cost;
+  }
+}
+
+/**
+ * Total all entries
+ */
+export function totalUsage(entries: UsageEntry[], pricing: UsagePricing): UsageSummary {
+  const total = emptySummary('total');
+  for (const entry of entries) {
+    addToSummary(total, entry, pricing);
+  }
+  return total;
+}
+
+/**
+ * Total entries by session, project, provider, model or agent, most expensive first
+ */
+export function summarizeUsage(
+  entries: UsageEntry[],
+  groupBy: UsageGroupBy,
+  pricing: UsagePricing
+): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+
+  for (const entry of entries) {
+    const key = (groupBy === 'session' ? entry.sessionId
+      : groupBy === 'project' ? entry.project
+        : groupBy === 'provider' ? entry.provider
+          : groupBy === 'model' ? entry.model
+            : entry.agent) ?? '(none)';
+
+    let group = groups.get(key);
+    if (!group) {
+      group = emptySummary(key);
+      groups.set(key, group);
+    }
+    addToSummary(group, entry, pricing);
+  }
+
+  return [...groups.values()].sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0) || b.requests - a.requests);
+}
@@ -0,0 +1,384 @@
+/**
+ * Shakespeare AI model metadata
+ *
+ * Maps the entries returned by the Shakespeare API's /models endpoint into
+ * OpenCode's model config, so OpenCode knows each model's context window,
+ * output limit, pricing and capabilities. The API follows the OpenRouter
+ * model format; fields it leaves out fall back to per-family defaults.
+ *
+ * The last list fetched from each API is cached in the config directory, so
+ * the providers have models at startup even when an API is slow or
+ * unreachable.
+ */
+
+import { join } from 'node:path';
+import { getConfigDir } from './config.js';
+import { readJsonFile, withFileLock, writeFileAtomic } from './files.js';
+
+/** Input or output modality in OpenCode's model config */
+export type Modality = 'text' | 'audio' | 'image' | 'video' | 'pdf';
+
+/**
+ * Model entry in OpenCode's provider config
+ */
+export interface ModelConfig {
+  name: string;
+  release_date?: string;
+  attachment: boolean;
+  reasoning: boolean;
+  temperature: boolean;
+  tool_call: boolean;
+  /** USD per million tokens */
+  cost?: {
+    input: number;
+    output: number;
+    cache_read?: number;
+    cache_write?: number;
+  };
+  limit: {
+    context: number;
+    output: number;
+  };
+  modalities: {
+    input: Modality[];
+    output: Modality[];
+  };
+}
+
+/**
+ * Model entry returned by /models. Everything but the id is optional.
+ */
+export interface ShakespeareModel {
+  id: string;
+  name?: string;
+  /** chat, image, ... */
+  type?: string;
+  /** Unix timestamp (seconds) */
+  created?: number;
+  context_length?: number;
+  context_window?: number;
+  max_completion_tokens?: number;
+  max_output_tokens?: number;
+  top_provider?: {
+    context_length?: number;
+    max_completion_tokens?: number;
+  };
+  /** USD per token (per image for image), as strings or numbers */
+  pricing?: {
+    prompt?: string | number;
+    completion?: string | number;
+    input_cache_read?: string | number;
+    input_cache_write?: string | number;
+    image?: string | number;
+  };
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  /** Request parameters the model accepts, e.g. tools, reasoning, temperature */
+  supported_parameters?: string[];
+}
+
+/**
+ * Defaults for a model family, used for anything /models doesn't say
+ */
+interface FamilyDefaults {
+  context: number;
+  output: number;
+  toolCall: boolean;
+  reasoning: boolean;
+  temperature: boolean;
+  input: Modality[];
+}
+
+/** Defaults for models that don't match a known family */
+const GENERIC_DEFAULTS: FamilyDefaults = {
+  context: 128_000,
+  output: 8_192,
+  toolCall: true,
+  reasoning: false,
+  temperature: true,
+  input: ['text'],
+};
+
+/**
+ * Per-family defaults, matched against the model id (without any vendor prefix)
+ * in order
+ */
+const FAMILY_DEFAULTS: Array<{ pattern: RegExp; defaults: FamilyDefaults }> = [
+  {
+    pattern: /^claude-/,
+    defaults: { context: 200_000, output: 64_000, toolCall: true, reasoning: true, temperature: true, input: ['text', 'image', 'pdf'] },
+  },
+  {
+    pattern: /^(gpt-5|o\d)/,
+    defaults: { context: 400_000, output: 128_000, toolCall: true, reasoning: true, temperature: false, input: ['text', 'image'] },
+  },
+  {
+    pattern: /^gpt-4\.1/,
+    defaults: { context: 1_047_576, output: 32_768, toolCall: true, reasoning: false, temperature: true, input: ['text', 'image'] },
+  },
+  {
+    pattern: /^gpt-/,
+    defaults: { context: 128_000, output: 16_384, toolCall: true, reasoning: false, temperature: true, input: ['text', 'image'] },
+  },
+  {
+    pattern: /^gemini-/,
+    defaults: { context: 1_048_576, output: 65_536, toolCall: true, reasoning: true, temperature: true, input: ['text', 'image', 'audio', 'video', 'pdf'] },
+  },
+  {
+    pattern: /^grok-/,
+    defaults: { context: 256_000, output: 32_768, toolCall: true, reasoning: true, temperature: true, input: ['text', 'image'] },
+  },
+  {
+    pattern: /^deepseek-/,
+    defaults: { context: 128_000, output: 32_768, toolCall: true, reasoning: true, temperature: true, input: ['text'] },
+  },
+  {
+    pattern: /^(qwen|kimi|glm)/,
+    defaults: { context: 128_000, output: 32_768, toolCall: true, reasoning: false, temperature: true, input: ['text'] },
+  },
+];
+
+const MODALITIES: Modality[] = ['text', 'audio', 'image', 'video', 'pdf'];
+
+/**
+ * Get the defaults for a model id like "claude-sonnet-4.5" or "anthropic/claude-sonnet-4.5"
+ */
+function getFamilyDefaults(id: string): FamilyDefaults {
+  const bare = id.toLowerCase().split('/').pop() ?? '';
+  return FAMILY_DEFAULTS.find(family => family.pattern.test(bare))?.defaults ?? GENERIC_DEFAULTS;
+}
+
+/**
+ * Return a positive integer, or undefined
+ */
+function positiveInt(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Convert a per-token price to USD per million tokens, or undefined if not a price
+ */
+function perMillion(value: unknown): number | undefined {
+  const price = typeof value === 'string' ? Number(value) : value;
+  if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+    return undefined;
+  }
+  // Round away floating point noise (e.g. 0.000003 * 1e6 = 2.9999999999999996)
+  return Math.round(price * 1e6 * 1e6) / 1e6;
+}
+
+/**
+ * Keep only the modalities OpenCode understands. "file" means PDFs in the
+ * OpenRouter format.
+ */
+function toModalities(values: unknown): Modality[] | undefined {
+  if (!Array.isArray(values)) return undefined;
+  const modalities = values
+    .map(value => value === 'file' ? 'pdf' : value)
+    .filter((value): value is Modality => MODALITIES.includes(value));
+  return modalities.length > 0 ? [...new Set(modalities)] : undefined;
+}
+
+/**
+ * Check whether an entry from /models is usable
+ */
+export function isShakespeareModel(value: unknown): value is ShakespeareModel {
+  return typeof value === 'object' && value !== null
+    && typeof (value as ShakespeareModel).id === 'string' && (value as ShakespeareModel).id.length > 0;
+}
+
+/**
+ * Check whether a model answers in text, so it can be used for chat
+ */
+export function isChatModel(model: ShakespeareModel): boolean {
+  return toModelConfig(model).modalities.output.includes('text');
+}
+
+/**
+ * Check whether a model generates images
+ */
+export function isImageModel(model: ShakespeareModel): boolean {
+  return model.type === 'image' || (toModalities(model.architecture?.output_modalities)?.includes('image') ?? false);
+}
+
+/**
+ * Get a model's price per generated image in USD, or null if unknown
+ */
+export function imagePrice(model: ShakespeareModel): number | null {
+  const price = typeof model.pricing?.image === 'string' ? Number(model.pricing.image) : model.pricing?.image;
+  return typeof price === 'number' && Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * Map a /models entry to OpenCode's model config
+ */
+export function toModelConfig(model: ShakespeareModel): ModelConfig {
+  const defaults = getFamilyDefaults(model.id);
+  const isChat = !model.type || model.type === 'chat';
+  const params = Array.isArray(model.supported_parameters) ? model.supported_parameters : null;
+
+  const input = toModalities(model.architecture?.input_modalities)
+    ?? (isChat ? defaults.input : ['text']);
+  const output = toModalities(model.architecture?.output_modalities)
+    ?? (model.type === 'image' ? ['image'] : ['text']);
+
+  const config: ModelConfig = {
+    name: model.name || model.id,
+    attachment: input.some(modality => modality !== 'text'),
+    reasoning: params ? params.includes('reasoning') || params.includes('include_reasoning') : isChat && defaults.reasoning,
+    temperature: params ? params.includes('temperature') : defaults.temperature,
+    tool_call: params ? params.includes('tools') : isChat && defaults.toolCall,
+    limit: {
+      context: positiveInt(model.context_length)
+        ?? positiveInt(model.context_window)
+        ?? positiveInt(model.top_provider?.context_length)
+        ?? defaults.context,
+      output: positiveInt(model.max_completion_tokens)
+        ?? positiveInt(model.max_output_tokens)
+        ?? positiveInt(model.top_provider?.max_completion_tokens)
+        ?? defaults.output,
+    },
+    modalities: { input, output },
+  };
+
+  const created = positiveInt(model.created);
+  if (created) {
+    config.release_date = new Date(created * 1000).toISOString().slice(0, 10);
+  }
+
+  // Only report a cost when the API gives one; a guessed price is worse than none
+  const inputCost = perMillion(model.pricing?.prompt);
+  const outputCost = perMillion(model.pricing?.completion);
+  if (inputCost !== undefined && outputCost !== undefined) {
+    config.cost = { input: inputCost, output: outputCost };
+    const cacheRead = perMillion(model.pricing?.input_cache_read);
+    const cacheWrite = perMillion(model.pricing?.input_cache_write);
+    if (cacheRead !== undefined) config.cost.cache_read = cacheRead;
+    if (cacheWrite !== undefined) config.cost.cache_write = cacheWrite;
+  }
+
+  return config;
+}
+
+/** How long the cached model list is used before fetching it again (6 hours) */
+export const MODELS_MAX_AGE = 6 * 60 * 60 * 1000;
+
+/** How long to wait for /models */
+const MODELS_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Last model list fetched from /models, persisted in the config directory
+ */
+export interface ModelCache {
+  /** API base URL the list was fetched from */
+  baseURL: string;
+  /** Unix timestamp (ms) of the fetch */
+  fetchedAt: number;
+  /** Entries as returned by the API, mapped again on every load */
+  models: ShakespeareModel[];
+}
+
+/** Refreshes in flight, by base URL */
+const refreshes = new Map<string, Promise<ModelCache>>();
+
+/**
+ * Get the model cache file path
+ */
+export function getModelCachePath(): string {
+  return join(getConfigDir(), 'models.json');
+}
+
+/**
+ * Check that a value read from the cache file is a model list
+ */
+function isModelCache(value: unknown): value is ModelCache {
+  const cache = value as Partial<ModelCache> | null;
+  return typeof cache === 'object' && cache !== null
+    && typeof cache.baseURL === 'string' && typeof cache.fetchedAt === 'number' && Array.isArray(cache.models);
+}
+
+/**
+ * Read every cached model list, keyed by base URL
+ */
+function readModelCaches(): Record<string, ModelCache> {
+  const result = readJsonFile<Record<string, unknown>>(getModelCachePath());
+  if (result.status !== 'ok' || typeof result.data !== 'object' || result.data === null) return {};
+
+  const caches: Record<string, ModelCache> = {};
+  for (const [baseURL, cache] of Object.entries(result.data)) {
+    if (isModelCache(cache) && cache.baseURL === baseURL) {
+      caches[baseURL] = cache;
+    }
+  }
+  return caches;
+}
+
+/**
+ * Load the cached model list for a base URL, or null if there is none
+ */
+export function loadModelCache(baseURL: string): ModelCache | null {
+  const cache = readModelCaches()[baseURL];
+  if (!cache) return null;
+  return { baseURL, fetchedAt: cache.fetchedAt, models: cache.models.filter(isShakespeareModel) };
+}
+
+/**
+ * Check whether a cached model list should be fetched again
+ */
+export function isModelCacheStale(cache: ModelCache | null): boolean {
+  return !cache || Date.now() - cache.fetchedAt >= MODELS_MAX_AGE;
+}
+
+/**
+ * Fetch the model list from the API
+ */
+async function fetchModels(baseURL: string): Promise<ShakespeareModel[]> {
+  const response = await fetch(`${baseURL}/models`, {
+    signal: AbortSignal.timeout(MODELS_FETCH_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  // Validate response shape before using it
+  const body = await response.json();
+  if (!body || !Array.isArray(body.data)) {
+    throw new Error('Unexpected response from /models');
+  }
+  return body.data.filter(isShakespeareModel);
+}
+
+/**
+ * Fetch the model list and update the cache. Concurrent refreshes for the
+ * same API share one request.
+ */
+export function refreshModels(baseURL: string): Promise<ModelCache> {
+  let refresh = refreshes.get(baseURL);
+  if (!refresh) {
+    refresh = (async () => {
+      const cache: ModelCache = { baseURL, fetchedAt: Date.now(), models: await fetchModels(baseURL) };
+      // Several providers share the file, so update only this API's list
+      const path = getModelCachePath();
+      await withFileLock(path, () => {
+        writeFileAtomic(path, JSON.stringify({ ...readModelCaches(), [baseURL]: cache }, null, 2));
+      });
+      return cache;
+    })().finally(() => refreshes.delete(baseURL));
+    refreshes.set(baseURL, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Map a model list to OpenCode's provider config, keyed by model id
+ */
+export function toProviderModels(models: ShakespeareModel[]): Record<string, ModelConfig> {
+  const result: Record<string, ModelConfig> = {};
+  for (const model of models) {
+    result[model.id] = toModelConfig(model);
+  }
+  return result;
+}
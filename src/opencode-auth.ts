@@ -9,46 +9,68 @@
 import { xdgData } from 'xdg-basedir';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { withFileLock, writeFileAtomicAsync } from './files.js';
+import { isRecord } from './json.js';
 
 /** The dummy API key that indicates NIP-46 authentication is active */
 const AUTH_KEY = 'nostr-nip46-connected';
 
 /**
- * Read and parse OpenCode's auth.json, returning an empty object on failure
+ * Read and parse OpenCode's auth.json, returning an empty object if it doesn't exist
+ * @throws Error if the file exists but can't be read or parsed, so that
+ * other providers' credentials in it are never overwritten
  */
 async function readAuthFile(authPath: string): Promise<Record<string, unknown>> {
+  let text: string;
   try {
-    const text = await fs.readFile(authPath, 'utf-8');
-    const data = JSON.parse(text);
-    return typeof data === 'object' && data !== null ? data : {};
-  } catch {
-    return {};
+    text = await fs.readFile(authPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Cannot read ${authPath}: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${authPath} is corrupt: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(data)) {
+    throw new Error(`${authPath} is corrupt: expected a JSON object`);
+  }
+  return data;
 }
 
 /**
- * Mark Shakespeare as authenticated in OpenCode's auth.json
+ * Apply a change to OpenCode's auth.json while holding its lock
  */
-export async function updateOpencodeAuth(): Promise<void> {
+async function modifyAuthFile(change: (data: Record<string, unknown>) => void): Promise<void> {
   if (!xdgData) return;
-  
+
   const authPath = path.join(xdgData, 'opencode', 'auth.json');
-  const data = await readAuthFile(authPath);
-  
-  data['shakespeare'] = { type: 'api', key: AUTH_KEY };
-  await fs.mkdir(path.dirname(authPath), { recursive: true });
-  await fs.writeFile(authPath, JSON.stringify(data, null, 2));
+  await withFileLock(authPath, async () => {
+    const data = await readAuthFile(authPath);
+    change(data);
+    await writeFileAtomicAsync(authPath, JSON.stringify(data, null, 2));
+  });
+}
+
+/**
+ * Mark Shakespeare as authenticated in OpenCode's auth.json
+ */
+export async function updateOpencodeAuth(): Promise<void> {
+  await modifyAuthFile(data => {
+    data['shakespeare'] = { type: 'api', key: AUTH_KEY };
+  });
 }
 
 /**
  * Remove Shakespeare auth from OpenCode's auth.json
  */
 export async function clearOpencodeAuth(): Promise<void> {
-  if (!xdgData) return;
-  
-  const authPath = path.join(xdgData, 'opencode', 'auth.json');
-  const data = await readAuthFile(authPath);
-  
-  delete data['shakespeare'];
-  await fs.writeFile(authPath, JSON.stringify(data, null, 2));
+  await modifyAuthFile(data => {
+    delete data['shakespeare'];
+  });
 }
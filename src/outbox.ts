@@ -0,0 +1,51 @@
+/**
+ * NIP-65 outbox relays
+ *
+ * The relays used to talk to the remote signer are not where the user's
+ * followers read from. The user's kind 10002 relay list says which relays
+ * they write to (publish there) and read from.
+ */
+
+import type { Event } from 'nostr-tools';
+import { normalizeRelayUrl } from './relay-url.js';
+import type { OutboxRelays } from './storage.js';
+
+/** NIP-65 relay list metadata */
+export const RELAY_LIST_KIND = 10002;
+
+/** How long a fetched relay list is used before fetching it again (24 hours) */
+export const OUTBOX_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a kind 10002 event into read and write relay sets.
+ * A relay tag without a marker is used for both.
+ */
+export function parseRelayList(event: Event): Omit<OutboxRelays, 'fetchedAt'> {
+  const read = new Set<string>();
+  const write = new Set<string>();
+
+  for (const tag of event.tags) {
+    if (tag[0] !== 'r' || !tag[1]) continue;
+
+    const url = normalizeRelayUrl(tag[1]);
+    if (!url) continue;
+
+    const marker = tag[2];
+    if (marker !== 'write') read.add(url);
+    if (marker !== 'read') write.add(url);
+  }
+
+  return {
+    read: [...read],
+    write: [...write],
+    eventId: event.id,
+    createdAt: event.created_at,
+  };
+}
+
+/**
+ * Check whether a cached relay list should be fetched again
+ */
+export function isOutboxStale(outbox: OutboxRelays | null | undefined): boolean {
+  return !outbox || Date.now() - outbox.fetchedAt >= OUTBOX_MAX_AGE;
+}
@@ -0,0 +1,56 @@
+/**
+ * NIP-46 permission helpers
+ *
+ * Permissions follow the NIP-46 format: `method[:param]`, e.g.
+ * `sign_event:27235` allows signing kind 27235 events only, while a bare
+ * `sign_event` allows any kind.
+ */
+
+/**
+ * Permissions requested by default: only the kinds the plugin signs itself
+ */
+export const DEFAULT_PERMISSIONS = [
+  'sign_event:27235', // NIP-98 HTTP auth (Shakespeare AI provider, shakespeare_deploy)
+  'sign_event:30617', // NIP-34 repository announcement (shakespeare_ngit)
+  'sign_event:30618', // NIP-34 repository state (shakespeare_ngit)
+  'sign_event:22242', // NIP-42 relay auth (relays on the relay auth allowlist)
+];
+
+/**
+ * Permissions assumed for connections made before permissions were scoped
+ */
+export const LEGACY_PERMISSIONS = ['sign_event'];
+
+/**
+ * Parse a comma-separated permission list, e.g. "sign_event:1,nip44_encrypt".
+ * Bare kind numbers are accepted as shorthand for `sign_event:<kind>`.
+ */
+export function parsePermissions(input: string): string[] {
+  const permissions = input
+    .split(',')
+    .map(p => p.trim())
+    .filter(p => p.length > 0)
+    .map(p => (/^\d+$/.test(p) ? `sign_event:${p}` : p));
+
+  for (const permission of permissions) {
+    if (!/^[a-z0-9_]+(:\d+)?$/.test(permission)) {
+      throw new Error(`Invalid permission "${permission}". Expected e.g. sign_event:1 or nip44_encrypt.`);
+    }
+  }
+
+  return [...new Set(permissions)];
+}
+
+/**
+ * Check whether a permission set allows signing an event kind
+ */
+export function canSignKind(permissions: string[], kind: number): boolean {
+  return permissions.includes('sign_event') || permissions.includes(`sign_event:${kind}`);
+}
+
+/**
+ * Add the permission for a kind to a set, for "reconnect with" hints
+ */
+export function withKind(permissions: string[], kind: number): string[] {
+  return [...new Set([...permissions, `sign_event:${kind}`])];
+}
@@ -0,0 +1,334 @@
+/**
+ * Signing policy
+ *
+ * Decides whether an event may be signed, based on its kind, its tags and
+ * the tool asking for the signature. Rules live in
+ * <config dir>/policy.json (~/.config/shakespeare by default):
+ *
+ * ```json
+ * {
+ *   "default": "allow",
+ *   "rules": [
+ *     { "kinds": [1], "tools": ["shakespeare_sign_event"], "action": "confirm" },
+ *     { "tags": [{ "name": "p", "value": "^npub" }], "action": "deny", "reason": "No mentions" },
+ *     { "kinds": [0], "action": "allow" }
+ *   ]
+ * }
+ * ```
+ *
+ * The first matching rule wins. If no rule matches, kinds that can damage an
+ * identity (profile, contacts, deletions, relay list) are denied, and any
+ * other event gets the default action.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { EventTemplate } from 'nostr-tools';
+import { getConfigDir } from './storage.js';
+
+/** What to do with a matching signing request */
+export type PolicyAction = 'allow' | 'deny' | 'confirm';
+
+/**
+ * A tag pattern: matches events with a tag of this name whose value
+ * matches the regular expression (any value if omitted)
+ */
+export interface TagPattern {
+  name: string;
+  value?: string;
+}
+
+/**
+ * A single policy rule. Every field given must match.
+ */
+export interface PolicyRule {
+  kinds?: number[];
+  tools?: string[];
+  /** Matches if any of the patterns matches */
+  tags?: TagPattern[];
+  action: PolicyAction;
+  reason?: string;
+}
+
+export interface SigningPolicy {
+  default: PolicyAction;
+  rules: PolicyRule[];
+}
+
+/**
+ * Kinds denied unless a rule explicitly allows them:
+ * 0 (profile), 3 (contact list), 5 (deletion), 10002 (relay list)
+ */
+export const PROTECTED_KINDS = [0, 3, 5, 10002];
+
+/** Policy used when no policy file exists */
+export const DEFAULT_POLICY: SigningPolicy = {
+  default: 'allow',
+  rules: [],
+};
+
+/**
+ * A signing request being checked against the policy
+ */
+export interface SigningRequest {
+  event: EventTemplate;
+  /** Tool (or integration) asking for the signature */
+  tool: string;
+}
+
+/**
+ * Outcome of a policy check
+ */
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** Index of the matching rule, or null for built-in behaviour */
+  rule: number | null;
+  reason: string;
+}
+
+/** Error codes for refused signing requests */
+export type PolicyErrorCode = 'policy_denied' | 'confirmation_required' | 'confirmation_rejected' | 'policy_invalid';
+
+/**
+ * Structured error for signing requests refused by the policy
+ */
+export class PolicyError extends Error {
+  constructor(
+    readonly code: PolicyErrorCode,
+    message: string,
+    readonly kind: number,
+    readonly tool: string,
+    readonly rule: number | null = null
+  ) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+
+  /**
+   * Plain object form for tool output
+   */
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      kind: this.kind,
+      tool: this.tool,
+      rule: this.rule,
+      policyFile: getPolicyFilePath(),
+    };
+  }
+}
+
+/**
+ * Get the policy file path
+ */
+export function getPolicyFilePath(): string {
+  return join(getConfigDir(), 'policy.json');
+}
+
+/**
+ * Check a parsed policy file and return it typed
+ */
+function validatePolicy(data: unknown): SigningPolicy {
+  const actions: PolicyAction[] = ['allow', 'deny', 'confirm'];
+  const policy = data as Partial<SigningPolicy>;
+
+  if (typeof policy !== 'object' || policy === null) {
+    throw new Error('policy must be a JSON object');
+  }
+  if (policy.default !== undefined && !actions.includes(policy.default)) {
+    throw new Error(`"default" must be one of ${actions.join(', ')}`);
+  }
+  if (policy.rules !== undefined && !Array.isArray(policy.rules)) {
+    throw new Error('"rules" must be an array');
+  }
+
+  const rules = policy.rules ?? [];
+  rules.forEach((rule, i) => {
+    if (!actions.includes(rule?.action)) {
+      throw new Error(`rules[${i}].action must be one of ${actions.join(', ')}`);
+    }
+    if (rule.kinds !== undefined && (!Array.isArray(rule.kinds) || !rule.kinds.every(k => Number.isInteger(k)))) {
+      throw new Error(`rules[${i}].kinds must be an array of integers`);
+    }
+    if (rule.tools !== undefined && (!Array.isArray(rule.tools) || !rule.tools.every(t => typeof t === 'string'))) {
+      throw new Error(`rules[${i}].tools must be an array of strings`);
+    }
+    if (rule.tags !== undefined) {
+      if (!Array.isArray(rule.tags) || !rule.tags.every(t => typeof t?.name === 'string')) {
+        throw new Error(`rules[${i}].tags must be an array of { name, value? } objects`);
+      }
+      for (const tag of rule.tags) {
+        if (tag.value !== undefined) {
+          try {
+            new RegExp(tag.value);
+          } catch {
+            throw new Error(`rules[${i}].tags has an invalid regular expression: ${tag.value}`);
+          }
+        }
+      }
+    }
+  });
+
+  return { default: policy.default ?? DEFAULT_POLICY.default, rules };
+}
+
+/**
+ * Load the signing policy, falling back to the default policy if no file exists
+ * @throws Error if the policy file exists but is invalid
+ */
+export function loadPolicy(): SigningPolicy {
+  const policyFile = getPolicyFilePath();
+  if (!existsSync(policyFile)) {
+    return DEFAULT_POLICY;
+  }
+  return validatePolicy(JSON.parse(readFileSync(policyFile, 'utf-8')));
+}
+
+/**
+ * Check whether a rule matches a signing request
+ */
+function ruleMatches(rule: PolicyRule, request: SigningRequest): boolean {
+  if (rule.kinds && !rule.kinds.includes(request.event.kind)) {
+    return false;
+  }
+  if (rule.tools && !rule.tools.includes(request.tool)) {
+    return false;
+  }
+  if (rule.tags) {
+    const matched = rule.tags.some(pattern => {
+      const regex = pattern.value !== undefined ? new RegExp(pattern.value) : null;
+      return request.event.tags.some(tag => tag[0] === pattern.name && (!regex || regex.test(tag[1] ?? '')));
+    });
+    if (!matched) return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate a signing request against a policy
+ */
+export function evaluatePolicy(policy: SigningPolicy, request: SigningRequest): PolicyDecision {
+  for (const [i, rule] of policy.rules.entries()) {
+    if (ruleMatches(rule, request)) {
+      return {
+        action: rule.action,
+        rule: i,
+        reason: rule.reason ?? `matched rules[${i}]`,
+      };
+    }
+  }
+
+  if (PROTECTED_KINDS.includes(request.event.kind)) {
+    return {
+      action: 'deny',
+      rule: null,
+      reason: `kind ${request.event.kind} can overwrite or delete identity data and must be explicitly allowed in the policy`,
+    };
+  }
+
+  return { action: policy.default, rule: null, reason: 'default policy' };
+}
+
+/**
+ * Asks the user to confirm a signing request. Resolves to true if approved.
+ */
+export type ConfirmFn = (request: SigningRequest, decision: PolicyDecision) => Promise<boolean>;
+
+/**
+ * Enforce the signing policy for a request
+ * @param confirm - How to ask the user for confirmation, if the caller can
+ * @throws PolicyError if the request is refused
+ */
+export async function enforcePolicy(request: SigningRequest, confirm?: ConfirmFn): Promise<void> {
+  const { kind } = request.event;
+
+  let policy: SigningPolicy;
+  try {
+    policy = loadPolicy();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    // Fail closed: a broken policy must not silently allow everything
+    throw new PolicyError('policy_invalid', `Signing policy at ${getPolicyFilePath()} is invalid: ${message}`, kind, request.tool);
+  }
+
+  const decision = evaluatePolicy(policy, request);
+
+  if (decision.action === 'allow') {
+    return;
+  }
+
+  if (decision.action === 'deny') {
+    throw new PolicyError(
+      'policy_denied',
+      `Signing kind ${kind} for ${request.tool} is denied by the signing policy: ${decision.reason}`,
+      kind,
+      request.tool,
+      decision.rule
+    );
+  }
+
+  if (!confirm) {
+    throw new PolicyError(
+      'confirmation_required',
+      `Signing kind ${kind} for ${request.tool} requires user confirmation, which is not available here. ` +
+      `Allow it in ${getPolicyFilePath()} to sign it.`,
+      kind,
+      request.tool,
+      decision.rule
+    );
+  }
+
+  if (!(await confirm(request, decision))) {
+    throw new PolicyError(
+      'confirmation_rejected',
+      `Signing kind ${kind} for ${request.tool} was rejected by the user.`,
+      kind,
+      request.tool,
+      decision.rule
+    );
+  }
+}
+
+/**
+ * Structural type for OpenCode's tool context. Newer OpenCode versions expose
+ * ask(), which prompts the user and rejects if they decline.
+ */
+interface AskingContext {
+  ask?: (input: {
+    permission: string;
+    patterns: string[];
+    always: string[];
+    metadata: Record<string, unknown>;
+  }) => Promise<void>;
+}
+
+/**
+ * Build a ConfirmFn from a tool context, if this OpenCode version can prompt the user
+ */
+export function contextConfirm(context: object | undefined): ConfirmFn | undefined {
+  const ask = (context as AskingContext | undefined)?.ask;
+  if (typeof ask !== 'function') {
+    return undefined;
+  }
+
+  return async (request, decision) => {
+    try {
+      await ask.call(context, {
+        permission: 'shakespeare_sign',
+        patterns: [`kind:${request.event.kind}`],
+        always: [],
+        metadata: {
+          tool: request.tool,
+          kind: request.event.kind,
+          content: request.event.content,
+          tags: request.event.tags,
+          reason: decision.reason,
+        },
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Profile resolution
+ *
+ * Decides which identity profile applies in a given directory. A project can
+ * pin a profile with a `.shakespeare-profile` file containing the profile name,
+ * or in opencode.json:
+ *
+ * ```json
+ * {
+ *   "provider": {
+ *     "shakespeare": { "options": { "profile": "release" } }
+ *   }
+ * }
+ * ```
+ *
+ * The nearest pin walking up from the directory wins. Without a pin, the
+ * globally active profile (set by shakespeare_switch_profile) is used.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { isValidProfileName, loadActiveProfile } from './storage.js';
+
+/** Project dotfile that pins a profile */
+export const PROFILE_PIN_FILE = '.shakespeare-profile';
+
+/**
+ * Where the resolved profile came from
+ */
+export interface ResolvedProfile {
+  /** Profile name */
+  name: string;
+  /** 'project' if pinned by a file, 'global' if the active profile was used */
+  source: 'project' | 'global';
+  /** File that pinned the profile, if any */
+  pinnedBy: string | null;
+}
+
+/**
+ * Read a profile pin from a single directory, if present
+ */
+function readPin(dir: string): { name: string; file: string } | null {
+  const dotfile = join(dir, PROFILE_PIN_FILE);
+  if (existsSync(dotfile)) {
+    try {
+      const name = readFileSync(dotfile, 'utf-8').trim();
+      if (isValidProfileName(name)) {
+        return { name, file: dotfile };
+      }
+    } catch {
+      // Unreadable pin file, keep looking
+    }
+  }
+
+  const opencodeConfig = join(dir, 'opencode.json');
+  if (existsSync(opencodeConfig)) {
+    try {
+      const config = JSON.parse(readFileSync(opencodeConfig, 'utf-8'));
+      const name = config?.provider?.shakespeare?.options?.profile;
+      if (typeof name === 'string' && isValidProfileName(name)) {
+        return { name, file: opencodeConfig };
+      }
+    } catch {
+      // Invalid JSON, keep looking
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the profile to use for a directory
+ * @param directory - Project directory (defaults to the current directory)
+ */
+export function resolveProfile(directory: string = process.cwd()): ResolvedProfile {
+  let dir = resolve(directory);
+
+  while (true) {
+    const pin = readPin(dir);
+    if (pin) {
+      return { name: pin.name, source: 'project', pinnedBy: pin.file };
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  return { name: loadActiveProfile(), source: 'global', pinnedBy: null };
+}
@@ -9,15 +9,56 @@
  */
 
 import { NIP98Client, type NostrSigner, type NostrEvent } from '@nostrify/nostrify';
-import { getSigner } from './signer.js';
-import { loadAuthState, getAuthFilePath } from './storage.js';
-import { nip19 } from 'nostr-tools';
+import { getSigner, getSyncedSigner } from './signer.js';
+import { PASSPHRASE_ENV } from './backends.js';
+import { getAuthFilePath, loadAuthState } from './storage.js';
+import { loadConfigOrDefault, type ShakespeareConfig } from './config.js';
+import { isChatModel, isModelCacheStale, loadModelCache, refreshModels, toProviderModels } from './models.js';
+import { recordResponseUsage, requestContextHeaders, takeRequestContext } from './ledger.js';
 
-/** Shakespeare AI API base URL */
-export const SHAKESPEARE_BASE_URL = 'https://ai.shakespeare.diy/v1';
+/** OpenCode provider id of Shakespeare AI */
+export const SHAKESPEARE_PROVIDER_ID = 'shakespeare';
+
+/** Placeholder API key - NIP-98 auth replaces it */
+const NIP98_API_KEY = 'nostr-nip46-connected';
+
+/**
+ * A Shakespeare-style provider: an OpenAI-compatible API authenticated with NIP-98
+ */
+export interface ShakespeareProvider {
+  /** OpenCode provider id */
+  id: string;
+  name: string;
+  baseURL: string;
+}
+
+/** Provider ids registered by the config hook */
+const registeredProviders = new Set<string>([SHAKESPEARE_PROVIDER_ID]);
+
+/**
+ * Get Shakespeare AI itself from the config
+ */
+export function getShakespeareProvider(config: ShakespeareConfig): ShakespeareProvider {
+  return { id: SHAKESPEARE_PROVIDER_ID, name: 'Shakespeare AI', baseURL: config.provider.baseURL };
+}
+
+/**
+ * Get Shakespeare AI and the Shakespeare-compatible providers from the config
+ */
+export function getShakespeareProviders(config: ShakespeareConfig): ShakespeareProvider[] {
+  return [
+    getShakespeareProvider(config),
+    ...Object.entries(config.providers).map(([id, entry]) => ({
+      id,
+      name: entry.name ?? id,
+      baseURL: entry.baseURL,
+    })),
+  ];
+}
 
 /**
- * Config hook - registers Shakespeare AI provider with available models (in-memory only)
+ * Config hook - registers Shakespeare AI and any Shakespeare-compatible
+ * providers from the config file, with their available models (in-memory only)
  * 
  * This hook modifies the config object passed by OpenCode but does NOT write to disk.
  * OpenCode handles config persistence separately.
@@ -25,51 +66,220 @@ export const SHAKESPEARE_BASE_URL = 'https://ai.shakespeare.diy/v1';
 export async function configureShakespeareProvider(input: any): Promise<void> {
   // Initialize provider config (in-memory only)
   input.provider = input.provider || {};
-  const provider = input.provider['shakespeare'] || {};
+
+  // The config hook can't report errors, so an invalid config falls back to
+  // the built-in settings here
+  const config = loadConfigOrDefault();
+  await Promise.all(getShakespeareProviders(config).map(provider => configureProvider(input, provider)));
+}
+
+/**
+ * Register one Shakespeare-style provider
+ */
+async function configureProvider(input: any, shakespeareProvider: ShakespeareProvider): Promise<void> {
+  const { id, name, baseURL } = shakespeareProvider;
+  const provider = input.provider[id] || {};
 
   // Set minimal provider metadata
-  provider.name ||= 'Shakespeare AI';
-  provider.api ||= SHAKESPEARE_BASE_URL;
+  provider.name ||= name;
+  provider.api ||= baseURL;
   provider.npm ||= '@ai-sdk/openai-compatible';
   provider.options = provider.options || {};
-  provider.options.baseURL ||= SHAKESPEARE_BASE_URL;
+  provider.options.baseURL ||= baseURL;
+  // Ask for a usage block in the last streamed chunk, for the usage ledger
+  provider.options.includeUsage ??= true;
+
+  // A plugin has a single auth hook, which serves Shakespeare AI; the other
+  // providers get the same NIP-98 fetch through their options
+  if (id !== SHAKESPEARE_PROVIDER_ID) {
+    provider.options.apiKey ||= NIP98_API_KEY;
+    provider.options.fetch ||= createNip98Fetch(shakespeareProvider);
+  }
 
-  // Only fetch models if not already configured
+  // Only load models if not already configured. The cached list is used
+  // right away and refreshed in the background once it's stale; without a
+  // cache the list is fetched before OpenCode starts. Image-only models are
+  // left to shakespeare_generate_image.
   if (!provider.models || Object.keys(provider.models).length === 0) {
-    try {
-      const response = await fetch(`${provider.options.baseURL}/models`, {
-        signal: AbortSignal.timeout(5000),
-      });
+    const cache = loadModelCache(provider.options.baseURL);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+    if (cache) {
+      provider.models = toProviderModels(cache.models.filter(isChatModel));
+      if (isModelCacheStale(cache)) {
+        refreshModels(provider.options.baseURL).catch(() => {
+          // Keep the cached list — the refresh is retried on next startup
+        });
+      }
+    } else {
+      try {
+        const fresh = await refreshModels(provider.options.baseURL);
+        provider.models = toProviderModels(fresh.models.filter(isChatModel));
+      } catch {
+        // Ignore errors fetching models — they'll be fetched on next startup
       }
+    }
+  }
 
-      const body = await response.json();
+  registeredProviders.add(id);
+  input.provider[id] = provider;
+}
 
-      // Validate response shape before using it
-      if (body && Array.isArray(body.data)) {
-        provider.models = {};
-        for (const model of body.data) {
-          if (model && model.id && (!model.type || model.type === 'chat')) {
-            provider.models[model.id] = {
-              name: model.name || model.id,
-            };
-          }
-        }
-      }
-    } catch {
-      // Ignore errors fetching models — they'll be fetched on next startup
+/** Reason a provider request couldn't be authenticated */
+export type ProviderAuthErrorCode = 'not_connected' | 'signer_timeout' | 'signer_rejected' | 'auth_rejected';
+
+/**
+ * Base class for provider requests that failed to authenticate
+ */
+export class ProviderAuthError extends Error {
+  constructor(readonly code: ProviderAuthErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * No usable Nostr credentials: never connected, unreadable credentials or a locked key
+ */
+export class NotConnectedError extends ProviderAuthError {
+  constructor(message: string) {
+    super('not_connected', message);
+    this.name = 'NotConnectedError';
+  }
+}
+
+/**
+ * The signer didn't sign the auth event in time
+ */
+export class SignerTimeoutError extends ProviderAuthError {
+  constructor(readonly timeoutMs: number) {
+    super(
+      'signer_timeout',
+      `The Nostr signer did not sign the request within ${Math.round(timeoutMs / 1000)} seconds. ` +
+      'Check that your signer app is online (shakespeare_status shows whether its relays answer), ' +
+      'or raise provider.signTimeout in the config file.'
+    );
+    this.name = 'SignerTimeoutError';
+  }
+}
+
+/**
+ * The signer (or the signing policy) refused to sign the auth event
+ */
+export class SignerRejectedError extends ProviderAuthError {
+  constructor(cause: unknown) {
+    super(
+      'signer_rejected',
+      `The Nostr signer refused to sign the request: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause }
+    );
+    this.name = 'SignerRejectedError';
+  }
+}
+
+/**
+ * The server rejected the signed auth event, even after a retry
+ */
+export class AuthRejectedError extends ProviderAuthError {
+  constructor(readonly provider: ShakespeareProvider, readonly status: number, readonly detail: string) {
+    super(
+      'auth_rejected',
+      `${provider.name} (${provider.baseURL}) rejected the NIP-98 authentication (HTTP ${status})${detail ? `: ${detail}` : ''}. ` +
+      'Check that your system clock is correct, or reconnect with shakespeare_connect.'
+    );
+    this.name = 'AuthRejectedError';
+  }
+}
+
+/**
+ * The account has run out of credits at a provider
+ */
+export class InsufficientCreditsError extends Error {
+  /**
+   * @param hasWallet - Whether a wallet is stored, so shakespeare_topup can pay on its own
+   */
+  constructor(
+    readonly provider: ShakespeareProvider,
+    readonly status: number,
+    readonly detail: string,
+    readonly hasWallet = false
+  ) {
+    super(
+      `Out of ${provider.name} credits (HTTP ${status})${detail ? `: ${detail}` : ''}. ` +
+      (provider.id !== SHAKESPEARE_PROVIDER_ID
+        ? `Add credits with the provider at ${provider.baseURL}.`
+        : hasWallet
+          ? 'Run shakespeare_topup to add credits from your wallet.'
+          : 'Run shakespeare_topup to get a Lightning invoice for more credits ' +
+            '(add a wallet with shakespeare_wallet to have it paid for you), or add credits at https://shakespeare.diy.')
+    );
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * Check a response for an out-of-credits error: HTTP 402, or an error body
+ * saying the credits are insufficient
+ * @throws InsufficientCreditsError
+ */
+async function checkCredits(response: Response, provider: ShakespeareProvider): Promise<Response> {
+  if (response.status === 402) {
+    throw new InsufficientCreditsError(provider, response.status, await readErrorDetail(response), hasStoredWallet());
+  }
+  if (response.status === 400 || response.status === 403) {
+    const detail = await readErrorDetail(response.clone());
+    if (/insufficient[ _-]?(credits|balance|funds)/i.test(detail)) {
+      throw new InsufficientCreditsError(provider, response.status, detail, hasStoredWallet());
     }
   }
+  return response;
+}
+
+/**
+ * Check whether the active profile has a wallet for shakespeare_topup
+ */
+function hasStoredWallet(): boolean {
+  return Boolean(loadAuthState(getSigner().getProfile())?.wallet);
+}
+
+/**
+ * Get the signing timeout from the config, falling back to the default
+ */
+function getSignTimeoutMs(): number {
+  return loadConfigOrDefault().provider.signTimeout * 1000;
+}
+
+/**
+ * Wait for a signature, giving up when the timeout passes or the caller aborts.
+ * The signer may still answer later; that answer is ignored.
+ */
+function awaitSignature<T>(signing: Promise<T>, timeoutMs: number, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => finish(() => reject(signal.reason));
+    const timer = setTimeout(() => finish(() => reject(new SignerTimeoutError(timeoutMs))), timeoutMs);
+
+    function finish(settle: () => void) {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      settle();
+    }
 
-  input.provider['shakespeare'] = provider;
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+    signing.then(
+      event => finish(() => resolve(event)),
+      error => finish(() => reject(new SignerRejectedError(error)))
+    );
+  });
 }
 
 /**
- * Create a NostrSigner adapter that wraps our NIP-46 signer
+ * Create a NostrSigner adapter that wraps our signer (whichever backend is active).
+ * Signing gives up after timeoutMs, or as soon as the request is aborted.
  */
-function createNostrSigner(): NostrSigner {
+function createNostrSigner(timeoutMs: number, signal: AbortSignal): NostrSigner {
   const signer = getSigner();
   
   return {
@@ -78,48 +288,136 @@ function createNostrSigner(): NostrSigner {
       return status.userPubkey || '';
     },
     async signEvent(event: Omit<NostrEvent, 'id' | 'pubkey' | 'sig'>): Promise<NostrEvent> {
-      return signer.signEvent(event as any);
+      return awaitSignature(
+        signer.signEvent(event as any, { tool: 'shakespeare_provider' }),
+        timeoutMs,
+        signal
+      );
     },
   };
 }
 
+/**
+ * Check that the signer can sign for the provider
+ * @throws NotConnectedError explaining what's missing
+ */
+async function assertConnected(): Promise<void> {
+  // Check at request time, for the profile that applies in the current
+  // project, after picking up any connect or disconnect from another process
+  const signer = await getSyncedSigner();
+  const status = signer.getStatus();
+
+  if (!status.connected) {
+    if (status.storageError) {
+      throw new NotConnectedError(
+        `Cannot load Nostr credentials: ${status.storageError}\n` +
+        'Run shakespeare_disconnect then shakespeare_connect again if the file cannot be repaired.'
+      );
+    }
+    throw new NotConnectedError(
+      `Not connected to Nostr (profile "${signer.getProfile()}"). Run shakespeare_connect to authenticate.\n` +
+      `Auth file location: ${getAuthFilePath(signer.getProfile())}`
+    );
+  }
+
+  // A locked local key is unlocked from the environment when signing
+  if (status.locked && !process.env[PASSPHRASE_ENV]) {
+    throw new NotConnectedError(
+      `The stored Nostr key is encrypted and locked. Set ${PASSPHRASE_ENV} or run shakespeare_unlock with the passphrase.`
+    );
+  }
+}
+
+/**
+ * Read the model from a JSON request body
+ */
+function requestedModel(init?: RequestInit): string | null {
+  if (typeof init?.body !== 'string') return null;
+  try {
+    const { model } = JSON.parse(init.body);
+    return typeof model === 'string' ? model : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a short error detail from a rejected response
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+  try {
+    return (await response.text()).trim().slice(0, 200);
+  } catch {
+    return '';
+  }
+}
+
 /**
  * Create a fetch wrapper that adds NIP-98 authentication to requests.
  * 
  * The returned function lazily checks connection state at fetch time,
  * not at construction time. This avoids errors during plugin initialization
  * when the user hasn't connected yet.
+ *
+ * A 401 is retried once with a freshly signed auth event, since the server
+ * rejects events whose timestamp drifted (e.g. after a slow bunker approval).
+ * Failures are thrown as ProviderAuthError subclasses, and running out of
+ * credits as InsufficientCreditsError. Completion responses are teed so
+ * their token usage can be recorded in the usage ledger.
+ * @param provider - Provider the requests go to, for the ledger and error messages
  */
-function createNip98Fetch(): typeof fetch {
-  return (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
-    // Check auth state at request time, not at construction time
-    const authState = loadAuthState();
-    if (!authState) {
-      return Promise.reject(new Error(
-        'Not connected to Nostr. Run shakespeare_connect to authenticate.\n' +
-        `Auth file location: ${getAuthFilePath()}`
-      ));
-    }
-    
-    // Verify the signer can be restored
-    const signer = getSigner();
-    if (!signer.isConnected()) {
-      return Promise.reject(new Error(
-        'Failed to restore Nostr connection from saved credentials.\n' +
-        'This can happen if the auth state is corrupted.\n' +
-        'Try running shakespeare_disconnect then shakespeare_connect again.'
-      ));
-    }
+export function createNip98Fetch(provider: ShakespeareProvider): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    await assertConnected();
+
+    const request = new Request(input, init);
+    // The session and agent are only for the usage ledger, not the server
+    const context = takeRequestContext(request.headers);
+    // Cloned before the body is read, so it can be sent again
+    const retry = request.clone();
 
-    // Create NIP98Client with our NIP-46 signer adapter
     const nip98Client = new NIP98Client({
-      signer: createNostrSigner(),
+      signer: createNostrSigner(getSignTimeoutMs(), request.signal),
     });
 
-    return nip98Client.fetch(input, init);
+    let response = await nip98Client.fetch(request);
+    if (response.status === 401) {
+      await response.body?.cancel();
+      response = await nip98Client.fetch(retry);
+      if (response.status === 401) {
+        throw new AuthRejectedError(provider, response.status, await readErrorDetail(response));
+      }
+    }
+
+    response = await checkCredits(response, provider);
+
+    // Record token usage of completions in the ledger
+    if (new URL(request.url).pathname.endsWith('/completions')) {
+      return recordResponseUsage(response, {
+        profile: getSigner().getProfile(),
+        provider: provider.id,
+        model: requestedModel(init),
+        context,
+      });
+    }
+    return response;
   };
 }
 
+/**
+ * chat.headers hook - tags requests to a Shakespeare-style provider with their
+ * session and agent, for the usage ledger. The provider fetch reads the tags
+ * from the request headers and strips them.
+ */
+export async function trackShakespeareSession(
+  input: { sessionID: string; agent: string; model: { providerID: string } },
+  output: { headers: Record<string, string> }
+): Promise<void> {
+  if (registeredProviders.has(input.model.providerID)) {
+    Object.assign(output.headers, requestContextHeaders({ sessionId: input.sessionID, agent: input.agent || null }));
+  }
+}
+
 /**
  * Auth hook - provides NIP-98 authenticated fetch using NIP-46 remote signer
  * 
@@ -127,7 +425,7 @@ function createNip98Fetch(): typeof fetch {
  * if the user is already connected via shakespeare_connect.
  */
 export const shakespeareAuth = {
-  provider: 'shakespeare',
+  provider: SHAKESPEARE_PROVIDER_ID,
   
   /**
    * Loader that returns a NIP-98 authenticated fetch function.
@@ -135,8 +433,8 @@ export const shakespeareAuth = {
    */
   async loader(_getAuth: () => Promise<any>, _provider: any) {
     return {
-      apiKey: 'nostr-nip46-connected', // Dummy key - NIP-98 auth replaces API key
-      fetch: createNip98Fetch(),
+      apiKey: NIP98_API_KEY,
+      fetch: createNip98Fetch(getShakespeareProvider(loadConfigOrDefault())),
     };
   },
 
@@ -152,26 +450,23 @@ export const shakespeareAuth = {
       type: 'oauth' as const,
       label: 'Nostr (NIP-46)',
       async authorize() {
-        // Check auth state directly from file (not singleton) to avoid module isolation issues
-        const authState = loadAuthState();
-        const isConnected = authState !== null && authState.userPubkey !== null;
-        const npub = isConnected ? nip19.npubEncode(authState!.userPubkey) : null;
+        // The signer syncs with auth.json, so a connection made in another
+        // OpenCode window is seen here too
+        const signer = await getSyncedSigner();
         
         return {
           url: '', // No URL needed - auth happens via shakespeare_connect tool
-          instructions: isConnected 
-            ? `Connected as ${npub}` 
+          instructions: signer.isConnected()
+            ? `Connected as ${signer.getUserNpub()}`
             : 'Not connected. Run shakespeare_connect first.',
           method: 'auto' as const,
           async callback() {
-            // Check auth state directly from file (not singleton) to avoid module isolation issues
-            const authState = loadAuthState();
-            const connected = authState !== null && authState.userPubkey !== null;
+            const signer = await getSyncedSigner();
             
-            if (connected) {
+            if (signer.isConnected()) {
               return {
                 type: 'success' as const,
-                key: 'nostr-nip46-connected', // Dummy key - actual auth is via NIP-98
+                key: NIP98_API_KEY,
               };
             }
             
@@ -0,0 +1,162 @@
+/**
+ * Relay publishing with per-relay reporting
+ *
+ * Publishes an event to each relay individually so we can report the
+ * relay's OK message, any NOTICEs it sent, and why it rejected the event.
+ * Transient failures (connection errors, timeouts, rate limits) are
+ * retried with exponential backoff; permanent rejections are not, except
+ * auth-required, which is retried once after NIP-42 auth.
+ */
+
+import type { VerifiedEvent } from 'nostr-tools';
+import { AUTH_REQUIRED_PREFIX, type RelayAuthStatus, type RelayPool } from './relays.js';
+
+/** Maximum publish attempts per relay */
+const MAX_ATTEMPTS = 3;
+
+/** Delay before the first retry, doubled on each further retry */
+const INITIAL_BACKOFF_MS = 500;
+
+/**
+ * NIP-01 OK message prefixes for rejections worth retrying
+ */
+const TRANSIENT_PREFIXES = ['rate-limited:', 'error:'];
+
+/**
+ * nostr-tools errors for a relay that couldn't be reached or didn't answer
+ * in time
+ */
+const TRANSIENT_ERRORS = [
+  /^publish timed out$/,
+  /^(relay )?connection (failed|closed|timed out)/,
+  /^connection failure: /,
+  /^websocket closed/,
+  /on a closed connection to /,
+];
+
+/**
+ * Outcome of publishing an event to one relay
+ */
+export interface RelayPublishResult {
+  relay: string;
+  /** Whether the relay accepted the event */
+  ok: boolean;
+  /** Message from the relay's OK response (or the failure reason) */
+  message: string;
+  /** NOTICE messages received from the relay while publishing */
+  notices: string[];
+  /** Number of attempts made */
+  attempts: number;
+  /** How the relay's demand for NIP-42 auth was answered, or null if it made none */
+  auth: RelayAuthStatus | null;
+}
+
+/**
+ * Outcome of publishing an event to a set of relays
+ */
+export interface PublishReport {
+  eventId: string;
+  kind: number;
+  /** Number of relays that accepted the event */
+  success: number;
+  total: number;
+  relays: RelayPublishResult[];
+  /** Relays that required NIP-42 auth before accepting the event */
+  authRequired: string[];
+}
+
+/**
+ * Check whether a publish failure is worth retrying. Any other failure is
+ * the relay refusing the event (invalid:, blocked:, pow:, ...) and would be
+ * refused again.
+ */
+function isTransient(message: string): boolean {
+  return TRANSIENT_PREFIXES.some(prefix => message.startsWith(prefix))
+    || TRANSIENT_ERRORS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Get a readable message from a publish rejection
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return typeof error === 'string' ? error : 'Unknown error';
+}
+
+/**
+ * Publish an event to a single relay, retrying transient failures
+ */
+async function publishToRelay(pool: RelayPool, url: string, event: VerifiedEvent): Promise<RelayPublishResult> {
+  // Capture NOTICEs sent while this publish is in flight
+  const capture = pool.captureNotices(url);
+  try {
+    return await attemptPublish(pool, url, event, capture.notices);
+  } finally {
+    capture.release();
+  }
+}
+
+/**
+ * Send an event to a relay until it is accepted, rejected for good, or out of attempts
+ */
+async function attemptPublish(pool: RelayPool, url: string, event: VerifiedEvent, notices: string[]): Promise<RelayPublishResult> {
+  let message = '';
+  let auth: RelayAuthStatus | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const relay = await pool.ensureRelay(url);
+      message = await relay.publish(event);
+      return { relay: url, ok: true, message, notices, attempts: attempt, auth };
+    } catch (error) {
+      message = errorMessage(error);
+
+      // Authenticate once, then send the event again straight away
+      if (message.startsWith(AUTH_REQUIRED_PREFIX) && auth === null && attempt < MAX_ATTEMPTS) {
+        const result = await pool.authenticate(url);
+        auth = result.status;
+        if (result.status === 'authenticated') continue;
+        message = `${message} (auth ${result.status === 'not_allowed' ? 'not allowed' : 'failed'}: ${result.error})`;
+      }
+
+      if (!isTransient(message) || attempt === MAX_ATTEMPTS) {
+        return { relay: url, ok: false, message, notices, attempts: attempt, auth };
+      }
+      await new Promise(resolve => setTimeout(resolve, INITIAL_BACKOFF_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  return { relay: url, ok: false, message, notices, attempts: MAX_ATTEMPTS, auth };
+}
+
+/**
+ * Publish an event to several relays in parallel
+ */
+export async function publishToRelays(pool: RelayPool, relays: string[], event: VerifiedEvent): Promise<PublishReport> {
+  const unique = [...new Set(relays)];
+  const results = await Promise.all(unique.map(url => publishToRelay(pool, url, event)));
+
+  return {
+    eventId: event.id,
+    kind: event.kind,
+    success: results.filter(r => r.ok).length,
+    total: results.length,
+    relays: results,
+    authRequired: results.filter(r => r.auth !== null).map(r => r.relay),
+  };
+}
+
+/**
+ * Format a publish report as readable lines, one per relay
+ */
+export function formatPublishReport(report: PublishReport): string {
+  const lines = report.relays.map(r => {
+    const status = r.ok ? 'OK' : 'FAILED';
+    const detail = r.message ? ` - ${r.message}` : '';
+    const retries = r.attempts > 1 ? ` (${r.attempts} attempts)` : '';
+    const auth = r.auth ? ` [NIP-42 auth: ${r.auth}]` : '';
+    const notices = r.notices.map(n => `\n      NOTICE: ${n}`).join('');
+    return `    ${r.relay}: ${status}${detail}${retries}${auth}${notices}`;
+  });
+  return lines.join('\n');
+}
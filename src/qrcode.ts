@@ -28,6 +28,31 @@ export function displayQRCode(data: string, options: QRDisplayOptions = {}): Pro
   });
 }
 
+/**
+ * Strip ANSI codes from a QR code and use unicode blocks instead
+ */
+function cleanQRCode(qrString: string): string {
+  return qrString
+    .replace(/\x1b\[47m  \x1b\[0m/g, '██')  // white -> filled block
+    .replace(/\x1b\[40m  \x1b\[0m/g, '  ')  // black -> space
+    .replace(/\x1b\[[0-9;]*m/g, '');         // strip any remaining ANSI
+}
+
+/**
+ * Format payment instructions for a Lightning invoice with QR code
+ * @param invoice - The BOLT-11 invoice
+ * @param qrString - The generated QR code string
+ * @param reason - Why the invoice wasn't paid automatically
+ * @returns Formatted output string
+ */
+export function formatInvoiceInstructions(invoice: string, qrString: string, reason: string): string {
+  return JSON.stringify({
+    qr_code: cleanQRCode(qrString),
+    invoice,
+    instructions: `${reason} Scan the QR code or paste the invoice into a Lightning wallet to pay it; the credits are added once it is paid.`,
+  }, null, 2);
+}
+
 /**
  * Format the connection instructions with QR code
  * @param nostrconnectUri - The nostrconnect:// URI
@@ -35,15 +60,9 @@ export function displayQRCode(data: string, options: QRDisplayOptions = {}): Pro
  * @returns Formatted output string
  */
 export function formatConnectionInstructions(nostrconnectUri: string, qrString: string): string {
-  // Strip ANSI codes from QR and use unicode blocks instead
-  const cleanQR = qrString
-    .replace(/\x1b\[47m  \x1b\[0m/g, '██')  // white -> filled block
-    .replace(/\x1b\[40m  \x1b\[0m/g, '  ')  // black -> space
-    .replace(/\x1b\[[0-9;]*m/g, '');         // strip any remaining ANSI
-  
   // Return as JSON so it's treated as data, not prose
   return JSON.stringify({
-    qr_code: cleanQR,
+    qr_code: cleanQRCode(qrString),
     uri: nostrconnectUri,
     instructions: "Scan QR or paste URI into signer (Amber/nsec.app/Primal), then run: shakespeare_complete"
   }, null, 2);
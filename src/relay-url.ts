@@ -0,0 +1,46 @@
+/**
+ * Relay URL checks
+ *
+ * Relays are reached over websockets, so a relay URL must be ws:// or
+ * wss://. Used to validate the config and stored state, and to read the
+ * relays in a NIP-65 relay list.
+ */
+
+import type { SchemaIssue } from './schema.js';
+
+/**
+ * Check that a value is a ws:// or wss:// URL
+ */
+export function isRelayUrl(url: unknown): url is string {
+  if (typeof url !== 'string') return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'wss:' || protocol === 'ws:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a relay URL, or return null if it isn't a websocket URL
+ */
+export function normalizeRelayUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return isRelayUrl(trimmed) ? new URL(trimmed).toString().replace(/\/$/, '') : null;
+}
+
+/**
+ * Check a list of relay URLs, adding an issue for the list or each bad entry
+ * @param allowEmpty - Whether an empty list is valid
+ */
+export function checkRelayList(value: unknown, field: string, issues: SchemaIssue[], allowEmpty = false): void {
+  if (!Array.isArray(value) || (!allowEmpty && value.length === 0)) {
+    issues.push({ field, problem: allowEmpty ? 'must be a list of relay URLs' : 'must be a non-empty list of relay URLs' });
+    return;
+  }
+  value.forEach((url, i) => {
+    if (!isRelayUrl(url)) {
+      issues.push({ field: `${field}[${i}]`, problem: `must be a wss:// (or ws://) relay URL, got ${JSON.stringify(url)}` });
+    }
+  });
+}
@@ -0,0 +1,507 @@
+/**
+ * Relay connection manager
+ *
+ * A relay pool (a SimplePool underneath) that opens relay connections lazily (on first use), closes
+ * ones that have sat idle, and reconnects dropped connections with backoff,
+ * so the NIP-46 signer subscription survives relay restarts. It keeps the
+ * health of each relay - connection state, last error, connect time and
+ * round-trip latency - for shakespeare_status, so a dead relay can be told
+ * apart from a signer that doesn't answer.
+ *
+ * Relays that require NIP-42 AUTH before accepting a request are answered
+ * with a kind 22242 event signed by the connected identity, but only if the
+ * caller's allowlist lets the pool authenticate to them.
+ */
+
+import { AbstractSimplePool } from 'nostr-tools/pool';
+import { verifyEvent } from 'nostr-tools/pure';
+import { normalizeURL } from 'nostr-tools/utils';
+import { makeAuthEvent } from 'nostr-tools/nip42';
+import type { AbstractRelay } from 'nostr-tools/abstract-relay';
+import type { Event, EventTemplate, Filter, VerifiedEvent } from 'nostr-tools';
+
+/** Close connections without subscriptions after this long unused, in milliseconds */
+const RELAY_IDLE_TIMEOUT = 60 * 1000;
+
+/** How often to look for idle connections, in milliseconds */
+const IDLE_SWEEP_INTERVAL = 15 * 1000;
+
+/** Delays between attempts to reconnect a dropped connection (the last one repeats) */
+const RECONNECT_BACKOFF = [1000, 2000, 5000, 10_000, 30_000, 60_000];
+
+/** Time to wait for a connection to open before giving up, in milliseconds */
+const CONNECT_TIMEOUT = 3 * 1000;
+
+/** Time to wait for a relay to answer a probe, in milliseconds */
+export const PROBE_TIMEOUT = 5 * 1000;
+
+/** An event id no relay has, so a probe only measures the REQ/EOSE round trip */
+const PROBE_EVENT_ID = '0'.repeat(64);
+
+/** Prefix of the NIP-01 OK/CLOSED message for requests that need NIP-42 auth first */
+export const AUTH_REQUIRED_PREFIX = 'auth-required:';
+
+/** Connection state of a relay */
+export type RelayState =
+  /** Open */
+  | 'connected'
+  /** Being opened for the first time */
+  | 'connecting'
+  /** Dropped, waiting to reconnect */
+  | 'reconnecting'
+  /** Not open: never used, or closed while idle */
+  | 'idle'
+  /** Not open: the last attempt to connect failed */
+  | 'failed';
+
+/** How a relay's demand for NIP-42 auth was answered */
+export type RelayAuthStatus =
+  /** Signed and accepted */
+  | 'authenticated'
+  /** The relay isn't on the allowlist, so nothing was signed */
+  | 'not_allowed'
+  /** Signing failed, or the relay rejected the auth event */
+  | 'failed';
+
+/**
+ * Outcome of answering a relay's AUTH challenge
+ */
+export interface RelayAuthResult {
+  relay: string;
+  status: RelayAuthStatus;
+  /** Why auth wasn't done or didn't work */
+  error: string | null;
+}
+
+/**
+ * Get the signing function for a relay's auth event, or null if the pool
+ * must not authenticate to that relay
+ */
+export type RelayAuthSigner = (url: string) => ((event: EventTemplate) => Promise<VerifiedEvent>) | null;
+
+/**
+ * Events from a query, and the relays that required auth to answer it
+ */
+export interface QueryResult {
+  events: Event[];
+  auth: RelayAuthResult[];
+}
+
+/**
+ * Health of one relay connection
+ */
+export interface RelayHealth {
+  url: string;
+  state: RelayState;
+  /** Why the last connection attempt or probe failed, or the connection dropped */
+  lastError: string | null;
+  /** Unix timestamp (ms) of lastError */
+  lastErrorAt: number | null;
+  /** Connection attempts that failed in a row */
+  failures: number;
+  /** Unix timestamp (ms) when the current (or last) connection opened */
+  connectedAt: number | null;
+  /** Time it took to open the last connection, in milliseconds */
+  connectMs: number | null;
+  /** Round trip of the last successful probe (REQ sent to EOSE received), in milliseconds */
+  latencyMs: number | null;
+  /** Unix timestamp (ms) when the connection was last used */
+  lastUsedAt: number | null;
+  /** How the last NIP-42 auth demand was answered, or null if the relay never asked */
+  auth: RelayAuthStatus | null;
+}
+
+/** What is known about a relay, apart from its live state */
+type RelayRecord = Omit<RelayHealth, 'url' | 'state'>;
+
+/**
+ * Receives what happens to the pool's sockets
+ */
+interface SocketListener {
+  opened(url: string, connectMs: number): void;
+  failed(url: string, error: string): void;
+  closed(url: string, code: number, reason: string): void;
+  challenged(url: string, challenge: string): void;
+}
+
+/**
+ * NOTICEs from a relay, collected from capture until release
+ */
+export interface NoticeCapture {
+  notices: string[];
+  release(): void;
+}
+
+/**
+ * Relay pool with managed connection lifecycle and per-relay health
+ */
+export class RelayPool extends AbstractSimplePool {
+  private readonly records = new Map<string, RelayRecord>();
+  /** Latest AUTH challenge from each open connection */
+  private readonly challenges = new Map<string, string>();
+  private readonly authentications = new Map<string, Promise<RelayAuthResult>>();
+  /** Open notice captures of each relay */
+  private readonly noticeCaptures = new Map<string, Set<string[]>>();
+  private readonly sweepTimer: ReturnType<typeof setInterval>;
+
+  /**
+   * @param authSigner - Signs auth events for the relays the pool may authenticate to
+   */
+  constructor(private readonly authSigner: RelayAuthSigner = () => null) {
+    // Every connection attempt (including reconnects) opens a new socket,
+    // so tracking sockets sees what the relay objects keep to themselves
+    let listener: SocketListener | null = null;
+    const BaseWebSocket = globalThis.WebSocket;
+    super({
+      verifyEvent,
+      maxWaitForConnection: CONNECT_TIMEOUT,
+      enableReconnect: true,
+      idleTimeout: RELAY_IDLE_TIMEOUT,
+      ...(BaseWebSocket ? { websocketImplementation: trackSockets(BaseWebSocket, () => listener) } : {}),
+    });
+    listener = {
+      opened: (url, connectMs) => this.socketOpened(url, connectMs),
+      failed: (url, error) => this.socketFailed(url, error),
+      closed: (url, code, reason) => this.socketClosed(url, code, reason),
+      challenged: (url, challenge) => this.challenges.set(url, challenge),
+    };
+
+    this.sweepTimer = setInterval(() => this.closeIdleRelays(), IDLE_SWEEP_INTERVAL);
+    this.sweepTimer.unref?.();
+  }
+
+  /**
+   * Get (and connect, if needed) a relay, noting that it is in use
+   */
+  override async ensureRelay(url: string, params?: { connectionTimeout?: number; abort?: AbortSignal }): Promise<AbstractRelay> {
+    const record = this.record(normalizeURL(url));
+    record.lastUsedAt = Date.now();
+
+    const relay = await super.ensureRelay(url, params);
+    relay.resubscribeBackoff = RECONNECT_BACKOFF;
+    // The relay object outlives reconnects, so this is its only notice
+    // handler; callers collect notices with captureNotices
+    relay.onnotice = notice => this.noticeReceived(relay.url, notice);
+    return relay;
+  }
+
+  /**
+   * Start collecting the NOTICEs a relay sends, until the capture is
+   * released. Each caller gets its own buffer, so concurrent requests to the
+   * same relay all see its notices.
+   */
+  captureNotices(url: string): NoticeCapture {
+    const key = normalizeURL(url);
+    const notices: string[] = [];
+    let captures = this.noticeCaptures.get(key);
+    if (!captures) {
+      captures = new Set();
+      this.noticeCaptures.set(key, captures);
+    }
+    captures.add(notices);
+
+    return {
+      notices,
+      release: () => {
+        captures.delete(notices);
+        if (captures.size === 0 && this.noticeCaptures.get(key) === captures) {
+          this.noticeCaptures.delete(key);
+        }
+      },
+    };
+  }
+
+  /**
+   * Measure the round trip to a relay with a REQ that matches nothing,
+   * connecting first if needed
+   */
+  async probe(url: string, timeoutMs: number = PROBE_TIMEOUT): Promise<RelayHealth> {
+    const key = normalizeURL(url);
+    const record = this.record(key);
+
+    try {
+      const relay = await this.ensureRelay(key, { connectionTimeout: timeoutMs });
+      const startedAt = Date.now();
+
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          sub.close();
+          reject(new Error(`no answer within ${Math.round(timeoutMs / 1000)} seconds`));
+        }, timeoutMs);
+
+        const sub = relay.subscribe([{ ids: [PROBE_EVENT_ID], limit: 1 }], {
+          label: 'probe',
+          // Our timer decides; the relay's own EOSE timeout would look like an answer
+          eoseTimeout: timeoutMs * 2,
+          oneose() {
+            clearTimeout(timer);
+            // Resolve first: closing the subscription calls onclose
+            resolve();
+            sub.close();
+          },
+          onclose(reason) {
+            clearTimeout(timer);
+            reject(new Error(reason));
+          },
+        });
+      });
+
+      record.latencyMs = Date.now() - startedAt;
+    } catch (error) {
+      record.latencyMs = null;
+      record.lastError = `probe failed: ${error instanceof Error ? error.message : String(error)}`;
+      record.lastErrorAt = Date.now();
+    }
+
+    return this.getHealth(key);
+  }
+
+  /**
+   * Answer a relay's AUTH challenge with an auth event signed by the
+   * connected identity, if the relay is on the allowlist. Concurrent
+   * requests for the same relay share one answer.
+   */
+  authenticate(url: string): Promise<RelayAuthResult> {
+    const key = normalizeURL(url);
+    let pending = this.authentications.get(key);
+    if (!pending) {
+      pending = this.answerChallenge(key).finally(() => {
+        this.authentications.delete(key);
+      });
+      this.authentications.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Sign and send the auth event for a relay's latest challenge
+   */
+  private async answerChallenge(url: string): Promise<RelayAuthResult> {
+    const result = await (async (): Promise<RelayAuthResult> => {
+      const sign = this.authSigner(url);
+      if (!sign) {
+        return { relay: url, status: 'not_allowed', error: 'the relay is not on the relay auth allowlist' };
+      }
+
+      const relay = this.relays.get(url);
+      const challenge = this.challenges.get(url);
+      if (!relay?.connected || !challenge) {
+        return { relay: url, status: 'failed', error: 'the relay sent no AUTH challenge' };
+      }
+
+      try {
+        // Signed up front: relay.auth() never settles if its signing callback throws
+        const event = await sign(makeAuthEvent(url, challenge));
+        await relay.auth(async () => event);
+        return { relay: url, status: 'authenticated', error: null };
+      } catch (error) {
+        return { relay: url, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+      }
+    })();
+
+    const record = this.record(url);
+    record.auth = result.status;
+    if (result.error) {
+      record.lastError = `auth ${result.status === 'not_allowed' ? 'not allowed' : 'failed'}: ${result.error}`;
+      record.lastErrorAt = Date.now();
+    }
+    return result;
+  }
+
+  /**
+   * Fetch events matching a filter, waiting for EOSE from every relay (or
+   * maxWait). Relays that close the request with auth-required are
+   * authenticated, if allowed, and asked again.
+   */
+  async query(relays: string[], filter: Filter, maxWait: number): Promise<QueryResult> {
+    const first = await this.collect(relays, filter, maxWait);
+
+    const auth = await Promise.all(
+      first.closed
+        .filter(({ reason }) => reason.startsWith(AUTH_REQUIRED_PREFIX))
+        .map(({ url }) => this.authenticate(url))
+    );
+
+    const retry = auth.filter(result => result.status === 'authenticated').map(result => result.relay);
+    const events = retry.length > 0
+      ? [...first.events, ...(await this.collect(retry, filter, maxWait)).events]
+      : first.events;
+
+    return { events, auth };
+  }
+
+  /**
+   * Run one REQ against relays until every relay has sent EOSE or closed it
+   */
+  private collect(
+    relays: string[],
+    filter: Filter,
+    maxWait: number
+  ): Promise<{ events: Event[]; closed: { url: string; reason: string }[] }> {
+    return new Promise(resolve => {
+      const events: Event[] = [];
+      this.subscribeEose(relays, filter, {
+        maxWait,
+        onevent(event) {
+          events.push(event);
+        },
+        onclose(closed) {
+          resolve({ events, closed });
+        },
+      });
+    });
+  }
+
+  /**
+   * Get the health of a relay
+   */
+  getHealth(url: string): RelayHealth {
+    const key = normalizeURL(url);
+    const record = this.record(key);
+    const relay = this.relays.get(key);
+
+    const state: RelayState = relay?.connected ? 'connected'
+      : relay ? (record.connectedAt !== null ? 'reconnecting' : 'connecting')
+        : record.failures > 0 ? 'failed'
+          : 'idle';
+
+    return { url: key, state, ...record };
+  }
+
+  /**
+   * Get the health of every relay this pool has used
+   */
+  listHealth(): RelayHealth[] {
+    return [...this.records.keys()].map(url => this.getHealth(url));
+  }
+
+  /**
+   * Close all connections and stop looking for idle ones
+   */
+  override destroy(): void {
+    clearInterval(this.sweepTimer);
+    super.destroy();
+  }
+
+  /**
+   * Hand a relay's NOTICE to every open capture
+   */
+  private noticeReceived(url: string, notice: string): void {
+    for (const notices of this.noticeCaptures.get(url) ?? []) {
+      notices.push(notice);
+    }
+  }
+
+  /**
+   * Note that a socket opened
+   */
+  private socketOpened(url: string, connectMs: number): void {
+    const record = this.record(url);
+    record.connectedAt = Date.now();
+    record.connectMs = connectMs;
+    record.failures = 0;
+    // A new connection gets a new challenge
+    this.challenges.delete(url);
+  }
+
+  /**
+   * Note that a socket failed to open
+   */
+  private socketFailed(url: string, error: string): void {
+    const record = this.record(url);
+    record.failures++;
+    record.lastError = error;
+    record.lastErrorAt = Date.now();
+  }
+
+  /**
+   * Note that an open socket closed
+   */
+  private socketClosed(url: string, code: number, reason: string): void {
+    // A relay closed on purpose (idle, or the pool destroyed) has already
+    // left the pool; one still in it dropped and is being reconnected
+    if (!this.relays.has(url)) return;
+    const record = this.record(url);
+    record.lastError = `connection lost (code ${code}${reason ? `: ${reason}` : ''})`;
+    record.lastErrorAt = Date.now();
+  }
+
+  /**
+   * Close connections with no subscriptions or requests that haven't been
+   * used for a while. Covers relays that reconnected after a drop, which
+   * the relay's own idle timer doesn't.
+   */
+  private closeIdleRelays(): void {
+    const cutoff = Date.now() - RELAY_IDLE_TIMEOUT;
+    for (const [url, relay] of this.relays) {
+      const lastUsedAt = this.records.get(url)?.lastUsedAt ?? 0;
+      if (relay.openSubs.size === 0 && relay.ongoingOperations === 0 && lastUsedAt < cutoff) {
+        this.close([url]);
+      }
+    }
+  }
+
+  /**
+   * Get the record for a relay, creating an empty one if needed
+   */
+  private record(url: string): RelayRecord {
+    let record = this.records.get(url);
+    if (!record) {
+      record = {
+        lastError: null,
+        lastErrorAt: null,
+        failures: 0,
+        connectedAt: null,
+        connectMs: null,
+        latencyMs: null,
+        lastUsedAt: null,
+        auth: null,
+      };
+      this.records.set(url, record);
+    }
+    return record;
+  }
+}
+
+/**
+ * Create a WebSocket class that reports when its sockets open, fail and
+ * close, and the AUTH challenges they receive
+ */
+function trackSockets(BaseWebSocket: typeof WebSocket, getListener: () => SocketListener | null): typeof WebSocket {
+  return class TrackedWebSocket extends BaseWebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols);
+
+      const key = String(url);
+      const startedAt = Date.now();
+      let opened = false;
+      let error: string | null = null;
+
+      this.addEventListener('open', () => {
+        opened = true;
+        getListener()?.opened(key, Date.now() - startedAt);
+      });
+      this.addEventListener('error', event => {
+        error = (event as ErrorEvent).message || 'connection failed';
+      });
+      this.addEventListener('message', event => {
+        // Cheap prefix check first; most messages are events
+        if (typeof event.data !== 'string' || !event.data.startsWith('["AUTH"')) return;
+        try {
+          const [, challenge] = JSON.parse(event.data);
+          if (typeof challenge === 'string') getListener()?.challenged(key, challenge);
+        } catch {
+          // Not a valid AUTH message; the relay object ignores it too
+        }
+      });
+      this.addEventListener('close', event => {
+        if (opened) {
+          getListener()?.closed(key, event.code, event.reason);
+        } else {
+          // Closed before opening without an error: the connection attempt timed out
+          getListener()?.failed(key, error ?? 'connection timed out');
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Auth state schema: versions, migrations and validation
+ *
+ * auth.json and pending.json carry a `version` field. Files written by older
+ * versions of the plugin are upgraded step by step through the migrations
+ * below, then every field is checked so a broken file is reported field by
+ * field instead of failing somewhere down the line.
+ */
+
+import { getPublicKey, nip19 } from 'nostr-tools';
+import { isRecord } from './json.js';
+import { LEGACY_PERMISSIONS } from './permissions.js';
+import { checkRelayList } from './relay-url.js';
+import type { AuthState, PendingConnection } from './storage.js';
+
+/** Current auth.json schema version */
+export const AUTH_STATE_VERSION = 1;
+
+/** Current pending.json schema version */
+export const PENDING_CONNECTION_VERSION = 1;
+
+/**
+ * A field that failed validation
+ */
+export interface SchemaIssue {
+  /** Path to the field, e.g. relays[0] */
+  field: string;
+  problem: string;
+}
+
+/**
+ * Error for a stored state that can't be migrated or fails validation
+ */
+export class SchemaError extends Error {
+  constructor(readonly issues: SchemaIssue[]) {
+    super(issues.map(i => `${i.field}: ${i.problem}`).join('; '));
+    this.name = 'SchemaError';
+  }
+}
+
+type Data = Record<string, unknown>;
+
+/** A migration from one schema version to the next */
+type Migration = (data: Data) => Data;
+
+/**
+ * auth.json migrations, keyed by the version they upgrade from.
+ * Version 0 is any file written before the version field existed.
+ */
+const AUTH_MIGRATIONS: Record<number, Migration> = {
+  // Backends, scoped permissions and the version field were added
+  0: data => data.backend === 'local'
+    ? { ...data, version: 1 }
+    : { ...data, backend: 'nip46', permissions: data.permissions ?? LEGACY_PERMISSIONS, version: 1 },
+};
+
+/**
+ * pending.json migrations, keyed by the version they upgrade from
+ */
+const PENDING_MIGRATIONS: Record<number, Migration> = {
+  // Status tracking was added. A pending connection from before then can't be
+  // resumed, so it is marked expired.
+  0: data => ({
+    ...data,
+    permissions: data.permissions ?? LEGACY_PERMISSIONS,
+    status: data.status ?? 'expired',
+    createdAt: data.createdAt ?? 0,
+    expiresAt: data.expiresAt ?? 0,
+    version: 1,
+  }),
+};
+
+/**
+ * Run the migration chain from a file's version up to the current version
+ */
+function migrate(data: Data, migrations: Record<number, Migration>, current: number): Data {
+  const stored = data.version ?? 0;
+  if (typeof stored !== 'number' || !Number.isInteger(stored) || stored < 0) {
+    throw new SchemaError([{ field: 'version', problem: 'must be a non-negative integer' }]);
+  }
+  let version = stored;
+  if (version > current) {
+    throw new SchemaError([{
+      field: 'version',
+      problem: `is ${version}, but this version of the plugin only understands up to ${current}. Update the plugin.`,
+    }]);
+  }
+
+  while (version < current) {
+    const step = migrations[version];
+    if (!step) {
+      throw new SchemaError([{ field: 'version', problem: `no migration from version ${version}` }]);
+    }
+    data = step(data);
+    version = data.version as number;
+  }
+  return data;
+}
+
+/**
+ * Collects validation issues for one object
+ */
+class Checker {
+  readonly issues: SchemaIssue[] = [];
+
+  constructor(private readonly data: Data) {}
+
+  private fail(field: string, problem: string): void {
+    this.issues.push({ field, problem });
+  }
+
+  hexKey(field: string, optional = false): void {
+    const value = this.data[field];
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string' || !/^[0-9a-f]{64}$/.test(value)) {
+      this.fail(field, 'must be a 64-character lowercase hex public key');
+    }
+  }
+
+  timestamp(field: string): void {
+    const value = this.data[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      this.fail(field, 'must be a timestamp in milliseconds');
+    }
+  }
+
+  relayList(field: string, value: unknown = this.data[field], allowEmpty = false): void {
+    checkRelayList(value, field, this.issues, allowEmpty);
+  }
+
+  permissions(field: string): void {
+    const value = this.data[field];
+    if (!Array.isArray(value)) {
+      this.fail(field, 'must be a list of NIP-46 permissions');
+      return;
+    }
+    value.forEach((permission, i) => {
+      if (typeof permission !== 'string' || !/^[a-z0-9_]+(:\d+)?$/.test(permission)) {
+        this.fail(`${field}[${i}]`, `must be a NIP-46 permission like sign_event:1, got ${JSON.stringify(permission)}`);
+      }
+    });
+  }
+
+  /**
+   * Check a client key (nsec, or ncryptsec when encrypted) against its pubkey
+   */
+  clientKey(field: string, pubkeyField: string): void {
+    const value = this.data[field];
+    if (typeof value === 'string' && value.startsWith('ncryptsec1')) {
+      return;
+    }
+    try {
+      if (typeof value !== 'string') throw new Error();
+      const decoded = nip19.decode(value);
+      if (decoded.type !== 'nsec') throw new Error();
+      if (getPublicKey(decoded.data) !== this.data[pubkeyField]) {
+        this.fail(field, `does not match ${pubkeyField}`);
+      }
+    } catch {
+      this.fail(field, 'must be an nsec or ncryptsec');
+    }
+  }
+
+  outbox(field: string): void {
+    const value = this.data[field];
+    if (value === undefined) return;
+    if (typeof value !== 'object' || value === null) {
+      this.fail(field, 'must be an object');
+      return;
+    }
+    const outbox = value as Data;
+    this.relayList(`${field}.read`, outbox.read, true);
+    this.relayList(`${field}.write`, outbox.write, true);
+    if (typeof outbox.fetchedAt !== 'number') {
+      this.fail(`${field}.fetchedAt`, 'must be a timestamp in milliseconds');
+    }
+  }
+
+  wallet(field: string): void {
+    const value = this.data[field];
+    if (value === undefined) return;
+    if (typeof value !== 'object' || value === null) {
+      this.fail(field, 'must be an object');
+      return;
+    }
+    const wallet = value as Data;
+    if (typeof wallet.walletPubkey !== 'string' || !/^[0-9a-f]{64}$/.test(wallet.walletPubkey)) {
+      this.fail(`${field}.walletPubkey`, 'must be a 64-character lowercase hex public key');
+    }
+    this.relayList(`${field}.relays`, wallet.relays);
+    if (typeof wallet.secret !== 'string' || !wallet.secret.startsWith('ncryptsec1')) {
+      this.fail(`${field}.secret`, 'must be an ncryptsec');
+    }
+    if (typeof wallet.addedAt !== 'number') {
+      this.fail(`${field}.addedAt`, 'must be a timestamp in milliseconds');
+    }
+  }
+
+  oneOf(field: string, values: unknown[]): void {
+    if (!values.includes(this.data[field])) {
+      this.fail(field, `must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Check that parsed JSON is an object before migrating it
+ */
+function asObject(data: unknown): Data {
+  if (!isRecord(data)) {
+    throw new SchemaError([{ field: '(root)', problem: 'must be a JSON object' }]);
+  }
+  return data;
+}
+
+/**
+ * Migrate and validate parsed auth.json contents
+ * @throws SchemaError listing every broken field
+ */
+export function parseAuthState(raw: unknown): AuthState {
+  const data = migrate(asObject(raw), AUTH_MIGRATIONS, AUTH_STATE_VERSION);
+  const check = new Checker(data);
+
+  check.oneOf('backend', ['nip46', 'local']);
+  check.hexKey('userPubkey');
+  check.timestamp('connectedAt');
+  check.outbox('outbox');
+  check.wallet('wallet');
+
+  if (data.backend === 'local') {
+    if (typeof data.ncryptsec !== 'string' || !data.ncryptsec.startsWith('ncryptsec1')) {
+      check.issues.push({ field: 'ncryptsec', problem: 'must be an ncryptsec' });
+    }
+    check.relayList('relays', data.relays, true);
+  } else {
+    check.hexKey('clientPubkey');
+    check.clientKey('clientSecretKey', 'clientPubkey');
+    check.hexKey('bunkerPubkey');
+    check.relayList('relays');
+    check.permissions('permissions');
+  }
+
+  if (check.issues.length > 0) {
+    throw new SchemaError(check.issues);
+  }
+  return data as unknown as AuthState;
+}
+
+/**
+ * Migrate and validate parsed pending.json contents
+ * @throws SchemaError listing every broken field
+ */
+export function parsePendingConnection(raw: unknown): PendingConnection {
+  const data = migrate(asObject(raw), PENDING_MIGRATIONS, PENDING_CONNECTION_VERSION);
+  const check = new Checker(data);
+
+  check.hexKey('clientPubkey');
+  check.clientKey('clientSecretKey', 'clientPubkey');
+  if (typeof data.nostrconnectUri !== 'string' || !data.nostrconnectUri.startsWith('nostrconnect://')) {
+    check.issues.push({ field: 'nostrconnectUri', problem: 'must be a nostrconnect:// URI' });
+  }
+  check.relayList('relays');
+  check.permissions('permissions');
+  check.oneOf('status', ['pending', 'approved', 'expired']);
+  check.timestamp('createdAt');
+  check.timestamp('expiresAt');
+  check.hexKey('userPubkey', true);
+
+  if (check.issues.length > 0) {
+    throw new SchemaError(check.issues);
+  }
+  return data as unknown as PendingConnection;
+}
@@ -6,21 +6,36 @@
  */
 
 import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
-import { BunkerSigner, createNostrConnectURI } from 'nostr-tools/nip46';
-import { SimplePool } from 'nostr-tools/pool';
-import type { EventTemplate, VerifiedEvent } from 'nostr-tools';
+import { decrypt as decryptKey, encrypt as encryptKey } from 'nostr-tools/nip49';
+import { BunkerSigner, createNostrConnectURI, parseBunkerInput } from 'nostr-tools/nip46';
+import type { Event, EventTemplate, Filter, VerifiedEvent } from 'nostr-tools';
+import { normalizeURL } from 'nostr-tools/utils';
 import { bytesToHex } from '@noble/hashes/utils';
-import { loadAuthState, saveAuthState, clearAuthState, savePendingConnection, loadPendingConnection, clearPendingConnection, type AuthState } from './storage.js';
+import { unwatchFile, watchFile } from 'node:fs';
+import { loadAuthState, readAuthState, saveAuthState, updateAuthState, clearAuthState, savePendingConnection, readPendingConnection, clearPendingConnection, getAuthFilePath, toStorageError, isEncryptedKey, DEFAULT_PROFILE, type AuthState, type OutboxRelays, type PendingStatus } from './storage.js';
+import { resolveProfile } from './profiles.js';
+import { loadConfig, loadConfigOrDefault, loadGlobalConfigOrDefault } from './config.js';
 import { displayQRCode, formatConnectionInstructions } from './qrcode.js';
-
-/** Default relays for NIP-46 communication */
-export const DEFAULT_RELAYS = [
-  'wss://relay.ditto.pub',
-];
+import { enforcePolicy, type ConfirmFn } from './policy.js';
+import { appendAuditEntry } from './audit.js';
+import { publishToRelays, type PublishReport } from './publish.js';
+import { RELAY_LIST_KIND, isOutboxStale, parseRelayList } from './outbox.js';
+import { DEFAULT_PERMISSIONS, canSignKind, withKind } from './permissions.js';
+import { RelayPool, type QueryResult, type RelayHealth } from './relays.js';
+import { LocalKeyBackend, Nip46Backend, NCRYPTSEC_ENV, PASSPHRASE_ENV, type SignerBackend, type SignerBackendType } from './backends.js';
 
 /** Connection timeout in milliseconds (5 minutes) */
 const CONNECTION_TIMEOUT = 5 * 60 * 1000;
 
+/** Default time to wait for relays to send EOSE on queries, in milliseconds */
+const QUERY_TIMEOUT = 5 * 1000;
+
+/** Timeout for bunker:// handshake requests in milliseconds (2 minutes) */
+const BUNKER_CONNECT_TIMEOUT = 2 * 60 * 1000;
+
+/** How often to check auth.json for changes made by other processes, in milliseconds */
+const AUTH_WATCH_INTERVAL = 1000;
+
 /**
  * Generate a random secret for nostrconnect
  */
@@ -30,6 +45,59 @@ function generateSecret(): string {
   return bytesToHex(bytes);
 }
 
+/**
+ * Encode the NIP-46 client key for storage: as an ncryptsec when a
+ * passphrase is given, otherwise as an nsec
+ */
+function encodeClientKey(secretKey: Uint8Array, passphrase?: string): string {
+  return passphrase ? encryptKey(secretKey, passphrase) : nip19.nsecEncode(secretKey);
+}
+
+/**
+ * Decode a stored NIP-46 client key
+ * @returns The secret key, or null if it is encrypted and no passphrase was given
+ * @throws Error if the key is invalid or the passphrase is wrong
+ */
+function decodeClientKey(stored: string, passphrase?: string): Uint8Array | null {
+  if (isEncryptedKey(stored)) {
+    if (!passphrase) return null;
+    try {
+      return decryptKey(stored, passphrase);
+    } catch {
+      throw new Error('Failed to decrypt the stored client key. Check the passphrase.');
+    }
+  }
+
+  const decoded = nip19.decode(stored);
+  if (decoded.type !== 'nsec') {
+    throw new Error(`Expected an nsec or ncryptsec client key, got ${decoded.type}`);
+  }
+  return decoded.data;
+}
+
+/**
+ * Decode a stored client key with the passphrase from the environment.
+ * Returns null if the key stays locked (no passphrase, or the wrong one).
+ */
+function decodeClientKeyFromEnv(stored: string): Uint8Array | null {
+  try {
+    return decodeClientKey(stored, process.env[PASSPHRASE_ENV]);
+  } catch (error) {
+    if (isEncryptedKey(stored)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Identify the connection an auth state describes. Fields that change without
+ * reconnecting (the cached relay list, the wallet) are left out.
+ */
+function connectionKey(state: AuthState): string {
+  return state.backend === 'local'
+    ? JSON.stringify(['local', state.ncryptsec, state.userPubkey, state.relays])
+    : JSON.stringify(['nip46', state.clientSecretKey, state.bunkerPubkey, state.userPubkey, state.relays, state.permissions]);
+}
+
 /**
  * Suppress noisy console.debug messages from nostr-tools relay code
  * during a synchronous block. Returns a restore function.
@@ -40,14 +108,62 @@ function suppressDebug(): () => void {
   return () => { console.debug = original; };
 }
 
+/**
+ * Reject if a promise doesn't settle within the given time.
+ * BunkerSigner requests have no timeout of their own.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
 /**
  * Signer status information
  */
 export interface SignerStatus {
+  /** Identity profile this signer belongs to */
+  profile: string;
   connected: boolean;
   userPubkey: string | null;
   npub: string | null;
+  /** Relays used to talk to the remote signer */
   relays: string[];
+  /** User's NIP-65 relay list, if fetched */
+  outbox: OutboxRelays | null;
+  /** Active signer backend, if any */
+  backend: SignerBackendType | null;
+  /** Whether a local key or an encrypted NIP-46 client key is waiting for its passphrase */
+  locked: boolean;
+  /** Whether the NIP-46 client key is stored encrypted (null for local keys) */
+  clientKeyEncrypted: boolean | null;
+  /** NIP-46 permissions granted to this connection (null for local keys) */
+  permissions: string[] | null;
+  /** State of the nostrconnect:// flow, if one is in progress */
+  pendingConnection: PendingConnectionStatus | null;
+  /** Why stored credentials couldn't be loaded (corrupt or unreadable file), if they couldn't */
+  storageError: string | null;
+}
+
+/**
+ * Options for signEvent
+ */
+export interface SignOptions {
+  /** Tool or integration asking for the signature, matched by policy rules */
+  tool?: string;
+  /** Asks the user to confirm requests the policy marks as "confirm" */
+  confirm?: ConfirmFn;
+}
+
+/**
+ * Pending connection info reported by getStatus()
+ */
+export interface PendingConnectionStatus {
+  status: PendingStatus;
+  createdAt: number;
+  expiresAt: number;
 }
 
 /**
@@ -55,138 +171,431 @@ export interface SignerStatus {
  */
 interface PendingConnection {
   clientSecretKey: Uint8Array;
+  /** Client key as written to disk (nsec, or ncryptsec when encrypted at rest) */
+  storedClientKey: string;
   nostrconnectUri: string;
   relays: string[];
+  permissions: string[];
+  status: PendingStatus;
+  createdAt: number;
+  expiresAt: number;
+  userPubkey?: string;
+  /** Why the connection expired, if it failed for another reason than timing out */
+  error?: string;
+  /** Background subscription waiting for the signer's approval (never rejects) */
+  approval: Promise<void> | null;
 }
 
 /**
- * Shakespeare Signer - manages NIP-46 remote signing using BunkerSigner
+ * Shakespeare Signer - manages signing through a pluggable backend
+ * (NIP-46 remote signer via BunkerSigner, or a local NIP-49 key)
  */
 export class ShakespeareSigner {
-  private bunkerSigner: BunkerSigner | null = null;
-  private pool: SimplePool;
+  private readonly profile: string;
+  private backend: SignerBackend | null = null;
+  private pool: RelayPool;
   private clientSecretKey: Uint8Array | null = null;
+  /** Client key as stored on disk; an ncryptsec stays locked until unlocked */
+  private storedClientKey: string | null = null;
   private userPubkey: string | null = null;
-  private relays: string[] = DEFAULT_RELAYS;
+  private relays: string[];
+  private permissions: string[] = [];
+  private outbox: OutboxRelays | null = null;
+  private outboxRefresh: Promise<OutboxRelays | null> | null = null;
   private pendingConnection: PendingConnection | null = null;
+  private storageError: string | null = null;
+  /** Connection in auth.json as last loaded or saved by this signer, if any */
+  private diskConnection: string | null = null;
+  private sync: Promise<void> | null = null;
+  private readonly authFile: string;
+  private readonly onAuthFileChange = () => {
+    this.syncWithDisk().catch(() => {
+      // Picked up again on the next change or request
+    });
+  };
 
-  constructor() {
-    this.pool = new SimplePool();
+  constructor(profile: string = DEFAULT_PROFILE) {
+    this.profile = profile;
+    this.pool = new RelayPool(url => this.isAuthAllowed(url)
+      ? event => this.signEvent(event, { tool: 'relay_auth' })
+      : null);
+    // An invalid config is reported when connecting and by shakespeare_status
+    this.relays = loadConfigOrDefault().relays;
     this.restore();
+    this.restorePendingConnection();
+
+    // Other OpenCode windows and plugin instances connect and disconnect
+    // through the same file. It is polled rather than watched with fs.watch
+    // because atomic writes replace it, and its directory may not exist yet.
+    this.authFile = getAuthFilePath(profile);
+    watchFile(this.authFile, { interval: AUTH_WATCH_INTERVAL, persistent: false }, this.onAuthFileChange);
   }
 
   /**
-   * Restore signer state from disk (auth state or pending connection)
+   * Restore signer state from disk
    */
   private restore(): boolean {
     // First try to restore a completed auth session
-    const state = loadAuthState();
+    const result = readAuthState(this.profile);
+
+    if (result.status !== 'ok') {
+      // A damaged file must not be mistaken for "never connected"
+      const error = toStorageError(result, getAuthFilePath(this.profile));
+      this.storageError = error ? `${error.message}. ${error.repairHint()}` : null;
+      return this.restoreFromEnv();
+    }
+
+    const state = result.data;
+    this.diskConnection = connectionKey(state);
+
+    if (state.backend === 'local') {
+      this.backend = new LocalKeyBackend(state.ncryptsec);
+      this.userPubkey = state.userPubkey;
+      this.relays = state.relays;
+      this.outbox = state.outbox ?? null;
+      return true;
+    }
     
-    if (state) {
+    // The state was validated on load, so a plain nsec always decodes
+    const clientSecretKey = decodeClientKeyFromEnv(state.clientSecretKey);
+
+    // Encrypted at rest with no usable passphrase: the BunkerSigner is
+    // created once shakespeare_unlock decrypts the key
+    if (clientSecretKey) {
       try {
-        const decoded = nip19.decode(state.clientSecretKey);
-        
-        if (decoded.type === 'nsec') {
-          this.clientSecretKey = decoded.data;
-          this.userPubkey = state.userPubkey;
-          this.relays = state.relays;
-          
-          // Recreate BunkerSigner from stored state
-          const restoreDebug = suppressDebug();
-          try {
-            this.bunkerSigner = BunkerSigner.fromBunker(
-              this.clientSecretKey,
-              {
-                pubkey: state.bunkerPubkey,
-                relays: state.relays,
-                secret: null,
-              },
-              { pool: this.pool }
-            );
-          } finally {
-            restoreDebug();
-          }
-          
-          return true;
-        }
-      } catch {
-        // If BunkerSigner creation fails, still restore basic state
-        // so isConnected() returns true based on saved credentials
-        if (state.userPubkey && state.clientSecretKey) {
-          try {
-            const decoded = nip19.decode(state.clientSecretKey);
-            if (decoded.type === 'nsec') {
-              this.clientSecretKey = decoded.data;
-              this.userPubkey = state.userPubkey;
-              this.relays = state.relays;
-              return true;
-            }
-          } catch {
-            // Ignore secondary decode error
-          }
-        }
+        this.backend = this.createBunkerBackend(clientSecretKey, state.bunkerPubkey, state.relays);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.storageError = `Cannot restore the NIP-46 session from ${getAuthFilePath(this.profile)}: ${message}`;
+        return false;
       }
+      this.clientSecretKey = clientSecretKey;
     }
 
-    // Try to restore a pending connection from disk
-    const pending = loadPendingConnection();
-    if (pending) {
-      try {
-        const decoded = nip19.decode(pending.clientSecretKey);
-        if (decoded.type === 'nsec') {
-          this.pendingConnection = {
-            clientSecretKey: decoded.data,
-            nostrconnectUri: pending.nostrconnectUri,
-            relays: pending.relays,
-          };
+    this.storedClientKey = state.clientSecretKey;
+    this.userPubkey = state.userPubkey;
+    this.relays = state.relays;
+    this.permissions = state.permissions;
+    this.outbox = state.outbox ?? null;
+    return true;
+  }
+
+  /**
+   * Save the auth state and remember it as the connection on disk, so the
+   * change isn't mistaken for one made by another process
+   */
+  private async saveState(state: AuthState): Promise<void> {
+    await saveAuthState(state, this.profile);
+    this.diskConnection = connectionKey(state);
+    this.storageError = null;
+  }
+
+  /**
+   * Pick up connections and disconnections made by other processes.
+   * Called when auth.json changes and before the signer is used, so every
+   * consumer sees the credentials currently on disk.
+   */
+  syncWithDisk(): Promise<void> {
+    this.sync ||= this.reloadIfChanged().finally(() => {
+      this.sync = null;
+    });
+    return this.sync;
+  }
+
+  /**
+   * Reload the session if auth.json now describes a different connection
+   */
+  private async reloadIfChanged(): Promise<void> {
+    const result = readAuthState(this.profile);
+
+    if (result.status === 'ok') {
+      if (connectionKey(result.data) === this.diskConnection) {
+        // Same connection; another process may have refreshed the relay list
+        this.outbox = result.data.outbox ?? this.outbox;
+        return;
+      }
+    } else if (result.status === 'missing') {
+      if (this.diskConnection === null) return;
+    } else {
+      // Keep the current session rather than drop it over a file that can't be read
+      const error = toStorageError(result, this.authFile);
+      this.storageError = error ? `${error.message}. ${error.repairHint()}` : null;
+      return;
+    }
+
+    await this.clearSession();
+    this.restore();
+  }
+
+  /**
+   * Close the backend and forget the connection, leaving stored state alone
+   */
+  private async clearSession(): Promise<void> {
+    await this.closeBackend();
+
+    this.clientSecretKey = null;
+    this.storedClientKey = null;
+    this.userPubkey = null;
+    this.permissions = [];
+    this.outbox = null;
+    this.outboxRefresh = null;
+    this.storageError = null;
+    this.diskConnection = null;
+  }
+
+  /**
+   * Create a NIP-46 backend for a stored bunker connection
+   */
+  private createBunkerBackend(clientSecretKey: Uint8Array, bunkerPubkey: string, relays: string[]): Nip46Backend {
+    const restoreDebug = suppressDebug();
+    try {
+      return new Nip46Backend(BunkerSigner.fromBunker(
+        clientSecretKey,
+        {
+          pubkey: bunkerPubkey,
+          relays,
+          secret: null,
+        },
+        { pool: this.pool }
+      ));
+    } finally {
+      restoreDebug();
+    }
+  }
+
+  /**
+   * Use a local ncryptsec from the environment when no credentials are stored,
+   * so CI jobs can sign without running shakespeare_connect
+   */
+  private restoreFromEnv(): boolean {
+    const ncryptsec = process.env[NCRYPTSEC_ENV];
+    if (!ncryptsec) return false;
+
+    const backend = new LocalKeyBackend(ncryptsec.trim());
+    try {
+      // The pubkey is only known once the key is decrypted
+      const userPubkey = backend.unlockFromEnv();
+      if (!userPubkey) return false;
+      this.backend = backend;
+      this.userPubkey = userPubkey;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Restore a pending connection from disk and resume listening for
+   * the signer's approval if it hasn't expired yet
+   */
+  private restorePendingConnection(): void {
+    const result = readPendingConnection(this.profile);
+    // Leave an unreadable file alone; it may be fixable (e.g. permissions)
+    if (result.status === 'missing' || result.status === 'unreadable') return;
+    // A broken pending connection can't be resumed, so start over
+    if (result.status === 'corrupt' || result.status === 'invalid') {
+      void clearPendingConnection(this.profile);
+      return;
+    }
+    const pending = result.data;
+
+    try {
+      const clientSecretKey = decodeClientKeyFromEnv(pending.clientSecretKey);
+      // An encrypted key can't be resumed without the passphrase; leave the file
+      // alone so a later session with SHAKESPEARE_PASSPHRASE set can pick it up
+      if (!clientSecretKey) return;
+
+      this.pendingConnection = {
+        clientSecretKey,
+        storedClientKey: pending.clientSecretKey,
+        nostrconnectUri: pending.nostrconnectUri,
+        relays: pending.relays,
+        permissions: pending.permissions,
+        status: pending.status,
+        createdAt: pending.createdAt,
+        expiresAt: pending.expiresAt,
+        userPubkey: pending.userPubkey,
+        approval: null,
+      };
+
+      if (this.pendingConnection.status === 'pending') {
+        if (Date.now() >= this.pendingConnection.expiresAt) {
+          this.pendingConnection.status = 'expired';
+          void this.recordApprovalStatus(this.pendingConnection);
+        } else {
+          this.pendingConnection.approval = this.listenForApproval(this.pendingConnection);
         }
-      } catch {
-        // Invalid pending state, clear it
-        clearPendingConnection();
       }
+    } catch {
+      // Invalid pending state, clear it
+      void clearPendingConnection(this.profile);
+    }
+  }
+
+  /**
+   * Write a pending connection to disk
+   */
+  private persistPendingConnection(pending: PendingConnection): Promise<void> {
+    return savePendingConnection({
+      clientSecretKey: pending.storedClientKey,
+      clientPubkey: getPublicKey(pending.clientSecretKey),
+      nostrconnectUri: pending.nostrconnectUri,
+      relays: pending.relays,
+      permissions: pending.permissions,
+      status: pending.status,
+      createdAt: pending.createdAt,
+      expiresAt: pending.expiresAt,
+      userPubkey: pending.userPubkey,
+    }, this.profile);
+  }
+
+  /**
+   * Subscribe for the signer's response to a nostrconnect:// URI.
+   *
+   * NIP-46 responses are ephemeral, so this runs in the background from the
+   * moment the QR code is shown. As soon as the signer approves, the auth
+   * state is saved so the approval survives even if shakespeare_complete
+   * is never called in this process.
+   */
+  private async listenForApproval(pending: PendingConnection): Promise<void> {
+    let bunkerSigner: BunkerSigner | null = null;
+    let adopted = false;
+
+    try {
+      bunkerSigner = await BunkerSigner.fromURI(
+        pending.clientSecretKey,
+        pending.nostrconnectUri,
+        { pool: this.pool },
+        Math.max(pending.expiresAt - Date.now(), 0)
+      );
+
+      // Get the user's public key (may differ from bunker pubkey)
+      const userPubkey = await withTimeout(
+        bunkerSigner.getPublicKey(),
+        BUNKER_CONNECT_TIMEOUT,
+        'Timed out waiting for the signer to return the user pubkey.'
+      );
+
+      // A newer connect or a disconnect may have replaced this attempt
+      if (this.pendingConnection !== pending) {
+        await bunkerSigner.close().catch(() => {});
+        return;
+      }
+
+      await this.closeBackend();
+      this.backend = new Nip46Backend(bunkerSigner);
+      adopted = true;
+      this.userPubkey = userPubkey;
+      this.outbox = null;
+      this.clientSecretKey = pending.clientSecretKey;
+      this.storedClientKey = pending.storedClientKey;
+      this.relays = pending.relays;
+      this.permissions = pending.permissions;
+
+      // The bunker pubkey is the pubkey of the NIP-46 signer service
+      // (may be the same as userPubkey for apps like Amber, but differs for dedicated bunkers)
+      const bunkerPubkey = bunkerSigner.bp.pubkey;
+
+      // Save state for persistence
+      const state: AuthState = {
+        clientSecretKey: pending.storedClientKey,
+        clientPubkey: getPublicKey(pending.clientSecretKey),
+        bunkerPubkey,
+        userPubkey,
+        relays: pending.relays,
+        connectedAt: Date.now(),
+        permissions: pending.permissions,
+      };
+      await this.saveState(state);
+
+      pending.status = 'approved';
+      pending.userPubkey = userPubkey;
+      await this.recordApprovalStatus(pending);
+
+      this.startOutboxRefresh();
+    } catch (error) {
+      if (bunkerSigner && !adopted) {
+        await bunkerSigner.close().catch(() => {});
+      }
+      if (this.pendingConnection !== pending) return;
+
+      pending.status = 'expired';
+      pending.error = error instanceof Error ? error.message : 'Unknown error';
+      await this.recordApprovalStatus(pending);
     }
+  }
 
-    return false;
+  /**
+   * Write a pending connection's status from the approval listener or while
+   * restoring it. Neither is awaited and must not reject, so a failed write
+   * (e.g. a lock timeout) is recorded on the connection instead of thrown.
+   */
+  private async recordApprovalStatus(pending: PendingConnection): Promise<void> {
+    try {
+      await this.persistPendingConnection(pending);
+    } catch (error) {
+      const message = `Could not save the connection request: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      pending.error = pending.error ? `${pending.error} ${message}` : message;
+    }
   }
 
   /**
    * Check if the signer is connected (has credentials to sign)
    */
   isConnected(): boolean {
-    return this.userPubkey !== null && this.clientSecretKey !== null;
+    return this.userPubkey !== null && (this.backend !== null || this.storedClientKey !== null);
   }
   
   /**
-   * Ensure bunkerSigner is available, creating it lazily if needed
+   * Ensure a signer backend is available, creating the NIP-46 one lazily if needed
    */
-  private ensureBunkerSigner(): void {
-    if (this.bunkerSigner) return;
+  private ensureBackend(): SignerBackend {
+    if (this.backend) return this.backend;
     
+    if (this.isClientKeyLocked()) {
+      throw new Error(`The stored client key is encrypted. Set ${PASSPHRASE_ENV} or run shakespeare_unlock with the passphrase.`);
+    }
     if (!this.clientSecretKey || !this.userPubkey) {
       throw new Error('Not connected. Use shakespeare_connect first.');
     }
     
-    const state = loadAuthState();
-    if (!state) {
+    const state = loadAuthState(this.profile);
+    if (!state || state.backend === 'local') {
       throw new Error('No auth state found. Use shakespeare_connect first.');
     }
     
-    const restoreDebug = suppressDebug();
-    try {
-      this.bunkerSigner = BunkerSigner.fromBunker(
-        this.clientSecretKey,
-        {
-          pubkey: state.bunkerPubkey,
-          relays: state.relays,
-          secret: null,
-        },
-        { pool: this.pool }
-      );
-    } finally {
-      restoreDebug();
+    this.backend = this.createBunkerBackend(this.clientSecretKey, state.bunkerPubkey, state.relays);
+    return this.backend;
+  }
+
+  /**
+   * Whether the NIP-46 client key is encrypted at rest and not unlocked yet
+   */
+  private isClientKeyLocked(): boolean {
+    return this.storedClientKey !== null && this.clientSecretKey === null;
+  }
+
+  /**
+   * Close the active backend, ignoring errors
+   */
+  private async closeBackend(): Promise<void> {
+    if (this.backend) {
+      try {
+        await this.backend.close();
+      } catch {
+        // Ignore close errors (relay may already be disconnected)
+      }
+      this.backend = null;
     }
   }
 
+  /**
+   * Get the name of the profile this signer belongs to
+   */
+  getProfile(): string {
+    return this.profile;
+  }
+
   /**
    * Get the user's public key (hex)
    */
@@ -213,39 +622,44 @@ export class ShakespeareSigner {
    * Set relays to use
    */
   setRelays(relays: string[]): void {
-    this.relays = relays.length > 0 ? relays : DEFAULT_RELAYS;
+    this.relays = relays.length > 0 ? relays : loadConfig().relays;
+  }
+
+  /**
+   * Close the remote signer session without clearing stored credentials
+   */
+  async close(): Promise<void> {
+    unwatchFile(this.authFile, this.onAuthFileChange);
+    this.pendingConnection = null;
+    await this.closeBackend();
+    this.pool.destroy();
   }
 
   /**
    * Disconnect and clear stored credentials
    */
   async disconnect(): Promise<void> {
-    if (this.bunkerSigner) {
-      try {
-        await this.bunkerSigner.close();
-      } catch {
-        // Ignore close errors (relay may already be disconnected)
-      }
-      this.bunkerSigner = null;
-    }
-
-    this.clientSecretKey = null;
-    this.userPubkey = null;
+    await this.clearSession();
     this.pendingConnection = null;
 
     // Clear all persisted state
-    clearAuthState();
-    clearPendingConnection();
+    await clearAuthState(this.profile);
+    await clearPendingConnection(this.profile);
   }
 
   /**
    * Initiate connection (step 1 of two-step flow)
    * Returns QR code and saves pending state, but doesn't wait for completion
+   * @param customRelays - Relays for NIP-46 communication (defaults to the configured relays)
+   * @param permissions - NIP-46 permissions to request (e.g. sign_event:27235)
+   * @param keyPassphrase - If given, the client key is stored encrypted with it (NIP-49)
    */
-  async initiateConnection(customRelays?: string[]): Promise<string> {
-    if (customRelays && customRelays.length > 0) {
-      this.relays = customRelays;
-    }
+  async initiateConnection(
+    customRelays?: string[],
+    permissions: string[] = DEFAULT_PERMISSIONS,
+    keyPassphrase?: string
+  ): Promise<string> {
+    this.relays = customRelays && customRelays.length > 0 ? customRelays : loadConfig().relays;
 
     // Generate new client keypair
     const clientSecretKey = generateSecretKey();
@@ -258,22 +672,27 @@ export class ShakespeareSigner {
       relays: this.relays,
       secret,
       name: 'Shakespeare',
-      perms: ['sign_event'],
+      perms: permissions,
     });
 
     // Save pending connection state (both in-memory and disk)
-    this.pendingConnection = {
+    const createdAt = Date.now();
+    const pending: PendingConnection = {
       clientSecretKey,
+      storedClientKey: encodeClientKey(clientSecretKey, keyPassphrase),
       nostrconnectUri,
       relays: this.relays,
+      permissions,
+      status: 'pending',
+      createdAt,
+      expiresAt: createdAt + CONNECTION_TIMEOUT,
+      approval: null,
     };
+    this.pendingConnection = pending;
+    await this.persistPendingConnection(pending);
 
-    savePendingConnection({
-      clientSecretKey: nip19.nsecEncode(clientSecretKey),
-      clientPubkey,
-      nostrconnectUri,
-      relays: this.relays,
-    });
+    // Start listening right away so an early approval isn't missed
+    pending.approval = this.listenForApproval(pending);
 
     // Generate QR code (small format for terminal)
     const qrString = await displayQRCode(nostrconnectUri, { small: true });
@@ -287,68 +706,261 @@ export class ShakespeareSigner {
     return this.pendingConnection !== null;
   }
 
+  /**
+   * Get the state of the pending connection, if any
+   */
+  getPendingStatus(): PendingStatus | null {
+    if (!this.pendingConnection) return null;
+    if (this.pendingConnection.status === 'pending' && Date.now() >= this.pendingConnection.expiresAt) {
+      return 'expired';
+    }
+    return this.pendingConnection.status;
+  }
+
   /**
    * Complete a pending connection (step 2 of two-step flow)
+   *
+   * Returns immediately if the signer already approved in the background,
+   * otherwise waits up to timeoutMs for the approval to arrive.
    */
   async completeConnection(timeoutMs: number = CONNECTION_TIMEOUT): Promise<string> {
-    if (!this.pendingConnection) {
+    const pending = this.pendingConnection;
+    if (!pending) {
       throw new Error('No pending connection. Run shakespeare_connect first.');
     }
 
-    const { clientSecretKey, nostrconnectUri, relays } = this.pendingConnection;
-    
+    if (pending.status === 'pending') {
+      pending.approval ||= this.listenForApproval(pending);
+      // On timeout the listener keeps running, so the user can approve and retry
+      await withTimeout(
+        pending.approval,
+        timeoutMs,
+        `No approval received after ${Math.round(timeoutMs / 1000)} seconds. ` +
+        'Approve the connection in your signer app, then run shakespeare_complete again.'
+      );
+    }
+
+    // Clear pending connection (both in-memory and disk)
+    this.pendingConnection = null;
+    await clearPendingConnection(this.profile);
+
+    if (pending.status !== 'approved') {
+      throw new Error(
+        `${pending.error || 'Connection request expired.'} ` +
+        'Run shakespeare_connect to generate a new QR code.'
+      );
+    }
+
+    return `Connected successfully!\nUser pubkey: ${this.getUserNpub()}`;
+  }
+
+  /**
+   * Connect directly to a bunker using a bunker:// URI (single-step flow)
+   *
+   * The bunker already knows its own pubkey and relays, so we can send the
+   * NIP-46 `connect` request (with the secret from the URI) right away
+   * instead of waiting for the signer to scan a nostrconnect:// URI.
+   * @param keyPassphrase - If given, the client key is stored encrypted with it (NIP-49)
+   */
+  async connectBunker(
+    bunkerUri: string,
+    permissions: string[] = DEFAULT_PERMISSIONS,
+    keyPassphrase?: string,
+    timeoutMs: number = BUNKER_CONNECT_TIMEOUT
+  ): Promise<string> {
+    const bunkerPointer = await parseBunkerInput(bunkerUri.trim());
+    if (!bunkerPointer) {
+      throw new Error('Invalid bunker URI. Expected bunker://<pubkey>?relay=wss://...&secret=...');
+    }
+    if (bunkerPointer.relays.length === 0) {
+      throw new Error('Bunker URI does not include any relays.');
+    }
+
+    const clientSecretKey = generateSecretKey();
+
+    const restoreDebug = suppressDebug();
+    let bunkerSigner: BunkerSigner;
     try {
-      // Wait for bunker to connect
-      this.bunkerSigner = await BunkerSigner.fromURI(
-        clientSecretKey,
-        nostrconnectUri,
-        { pool: this.pool },
-        timeoutMs
+      bunkerSigner = BunkerSigner.fromBunker(clientSecretKey, bunkerPointer, { pool: this.pool });
+    } finally {
+      restoreDebug();
+    }
+
+    try {
+      // BunkerSigner.connect() can't request permissions, so send the request directly:
+      // connect [<remote-signer-pubkey>, <optional_secret>, <optional_requested_perms>]
+      await withTimeout(
+        bunkerSigner.sendRequest('connect', [bunkerPointer.pubkey, bunkerPointer.secret || '', permissions.join(',')]),
+        timeoutMs,
+        'Timed out waiting for the bunker to accept the connection.'
       );
+      const userPubkey = await withTimeout(bunkerSigner.getPublicKey(), timeoutMs, 'Timed out waiting for the bunker to return the user pubkey.');
 
-      // Get the user's public key (may differ from bunker pubkey)
-      this.userPubkey = await this.bunkerSigner.getPublicKey();
+      await this.closeBackend();
+      this.backend = new Nip46Backend(bunkerSigner);
       this.clientSecretKey = clientSecretKey;
-      this.relays = relays;
+      this.storedClientKey = encodeClientKey(clientSecretKey, keyPassphrase);
+      this.userPubkey = userPubkey;
+      this.outbox = null;
+      this.relays = bunkerPointer.relays;
+      this.permissions = permissions;
 
-      // The bunker pubkey is the pubkey of the NIP-46 signer service
-      // (may be the same as userPubkey for apps like Amber, but differs for dedicated bunkers)
-      const bunkerPubkey = this.bunkerSigner.bp.pubkey;
+      // A direct bunker connection supersedes any QR code flow in progress
+      this.pendingConnection = null;
+      await clearPendingConnection(this.profile);
 
-      // Save state for persistence
       const state: AuthState = {
-        clientSecretKey: nip19.nsecEncode(clientSecretKey),
+        clientSecretKey: this.storedClientKey,
         clientPubkey: getPublicKey(clientSecretKey),
-        bunkerPubkey,
-        userPubkey: this.userPubkey,
+        bunkerPubkey: bunkerPointer.pubkey,
+        userPubkey,
         relays: this.relays,
         connectedAt: Date.now(),
-        permissions: ['sign_event'],
+        permissions,
       };
-      saveAuthState(state);
-
-      // Clear pending connection (both in-memory and disk)
-      this.pendingConnection = null;
-      clearPendingConnection();
+      await this.saveState(state);
+      this.startOutboxRefresh();
 
       return `Connected successfully!\nUser pubkey: ${this.getUserNpub()}`;
     } catch (error) {
-      // Clear pending on failure
-      this.pendingConnection = null;
-      clearPendingConnection();
+      try {
+        await bunkerSigner.close();
+      } catch {
+        // Ignore close errors
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Use a local NIP-49 encrypted key instead of a remote signer
+   *
+   * Only the ncryptsec is saved. The passphrase comes from the argument or
+   * SHAKESPEARE_PASSPHRASE and is used to check the key and learn its pubkey.
+   */
+  async useLocalKey(ncryptsec: string, passphrase?: string): Promise<string> {
+    const backend = new LocalKeyBackend(ncryptsec.trim());
+    const secret = passphrase || process.env[PASSPHRASE_ENV];
+    if (!secret) {
+      throw new Error(`A passphrase is required to check the ncryptsec. Set ${PASSPHRASE_ENV} or pass the passphrase.`);
+    }
+    const userPubkey = backend.unlock(secret);
+
+    await this.closeBackend();
+    this.backend = backend;
+    this.clientSecretKey = null;
+    this.storedClientKey = null;
+    this.userPubkey = userPubkey;
+    this.outbox = null;
+    this.permissions = [];
+    this.pendingConnection = null;
+    await clearPendingConnection(this.profile);
+
+    await this.saveState({
+      backend: 'local',
+      ncryptsec: backend.ncryptsec,
+      userPubkey,
+      relays: this.relays,
+      connectedAt: Date.now(),
+    });
+    this.startOutboxRefresh();
+
+    return `Local key configured!\nUser pubkey: ${this.getUserNpub()}`;
+  }
+
+  /**
+   * Unlock a local NIP-49 key, or a NIP-46 client key stored encrypted, for this session
+   */
+  unlock(passphrase: string): string {
+    if (this.isClientKeyLocked()) {
+      const clientSecretKey = decodeClientKey(this.storedClientKey!, passphrase)!;
+      const state = loadAuthState(this.profile);
+      if (!state || state.backend === 'local') {
+        throw new Error('No auth state found. Use shakespeare_connect first.');
+      }
+      if (getPublicKey(clientSecretKey) !== state.clientPubkey) {
+        throw new Error('The decrypted client key does not match the stored connection.');
+      }
+      this.backend = this.createBunkerBackend(clientSecretKey, state.bunkerPubkey, state.relays);
+      this.clientSecretKey = clientSecretKey;
+      return `Unlocked the client key for ${this.getUserNpub()}.`;
+    }
+
+    if (!(this.backend instanceof LocalKeyBackend)) {
+      throw new Error(this.storedClientKey && isEncryptedKey(this.storedClientKey)
+        ? 'The NIP-46 client key is already unlocked for this session.'
+        : 'Nothing to unlock: this connection uses a NIP-46 client key stored unencrypted. ' +
+          'Only a local ncryptsec key, or a client key stored with shakespeare_connect with encrypt, needs unlocking.');
+    }
+    const pubkey = this.backend.unlock(passphrase);
+    if (this.userPubkey && pubkey !== this.userPubkey) {
+      void this.backend.close();
+      throw new Error('The decrypted key does not match the configured identity.');
+    }
+    this.userPubkey = pubkey;
+    return `Unlocked local key for ${this.getUserNpub()}.`;
+  }
+
+  /**
+   * Sign a Nostr event using the active backend
+   *
+   * Every request is checked against the signing policy first, and its
+   * outcome is recorded in the audit log.
+   * @throws PolicyError if the policy refuses the request
+   */
+  async signEvent(eventTemplate: EventTemplate, options: SignOptions = {}): Promise<VerifiedEvent> {
+    const tool = options.tool ?? 'unknown';
+    const startedAt = Date.now();
+
+    try {
+      const event = await this.signChecked(eventTemplate, tool, options.confirm);
+      appendAuditEntry({
+        timestamp: startedAt,
+        profile: this.profile,
+        tool,
+        kind: eventTemplate.kind,
+        eventId: event.id,
+        outcome: 'approved',
+        latencyMs: Date.now() - startedAt,
+      });
+      return event;
+    } catch (error) {
+      appendAuditEntry({
+        timestamp: startedAt,
+        profile: this.profile,
+        tool,
+        kind: eventTemplate.kind,
+        eventId: null,
+        outcome: 'rejected',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
       throw error;
     }
   }
 
   /**
-   * Sign a Nostr event using the remote signer
+   * Check policy and permissions, then sign with the active backend
    */
-  async signEvent(eventTemplate: EventTemplate): Promise<VerifiedEvent> {
-    this.ensureBunkerSigner();
+  private async signChecked(eventTemplate: EventTemplate, tool: string, confirm?: ConfirmFn): Promise<VerifiedEvent> {
+    await this.syncWithDisk();
+    const backend = this.ensureBackend();
+
+    await enforcePolicy({ event: eventTemplate, tool }, confirm);
+
+    // The bunker would silently ignore a request it has no permission for,
+    // leaving us to wait out the timeout, so fail fast instead
+    if (backend.type === 'nip46' && !canSignKind(this.permissions, eventTemplate.kind)) {
+      throw new Error(
+        `Permission to sign kind ${eventTemplate.kind} events was not granted. ` +
+        `Reconnect with permissions "${withKind(this.permissions, eventTemplate.kind).join(',')}" ` +
+        '(shakespeare_disconnect, then shakespeare_connect with those permissions).'
+      );
+    }
     
     const restoreDebug = suppressDebug();
     try {
-      return await this.bunkerSigner!.signEvent(eventTemplate);
+      return await backend.signEvent(eventTemplate);
     } finally {
       restoreDebug();
     }
@@ -359,63 +971,212 @@ export class ShakespeareSigner {
    */
   getStatus(): SignerStatus {
     return {
+      profile: this.profile,
       connected: this.isConnected(),
       userPubkey: this.userPubkey,
       npub: this.getUserNpub(),
       relays: this.relays,
+      outbox: this.outbox,
+      backend: this.backend?.type ?? (this.storedClientKey ? 'nip46' : null),
+      locked: (this.backend instanceof LocalKeyBackend && this.backend.isLocked()) || this.isClientKeyLocked(),
+      clientKeyEncrypted: this.storedClientKey ? isEncryptedKey(this.storedClientKey) : null,
+      permissions: this.storedClientKey ? [...this.permissions] : null,
+      pendingConnection: this.pendingConnection
+        ? {
+          status: this.getPendingStatus()!,
+          createdAt: this.pendingConnection.createdAt,
+          expiresAt: this.pendingConnection.expiresAt,
+        }
+        : null,
+      storageError: this.storageError,
     };
   }
 
   /**
-   * Publish a signed event to relays
+   * Check whether the identity may authenticate to a relay (NIP-42): the
+   * relay must be a GRASP server or on the relayAuth.relays allowlist of the
+   * global config. Project configs are ignored so a cloned repository can't
+   * add relays to authenticate to.
    */
-  async publishEvent(event: VerifiedEvent): Promise<{ success: number; total: number }> {
-    let success = 0;
-    const results = await Promise.allSettled(
-      this.pool.publish(this.relays, event)
-    );
-    
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        success++;
-      }
+  private isAuthAllowed(url: string): boolean {
+    const config = loadGlobalConfigOrDefault();
+    const allowed = [...config.ngit.graspServers, ...config.relayAuth.relays].map(normalizeURL);
+    return allowed.includes(normalizeURL(url));
+  }
+
+  /**
+   * Probe the relays used to reach the signer, and report the health of the
+   * other relays this signer has used (outbox relays, GRASP servers, ...)
+   */
+  async checkRelays(): Promise<{ signer: RelayHealth[]; other: RelayHealth[] }> {
+    const signer = await Promise.all(this.relays.map(url => this.pool.probe(url)));
+    const probed = new Set(signer.map(health => health.url));
+    return {
+      signer,
+      other: this.pool.listHealth().filter(health => !probed.has(health.url)),
+    };
+  }
+
+  /**
+   * Get the user's NIP-65 relay list, fetching it if it isn't cached or is stale
+   */
+  async getOutboxRelays(): Promise<OutboxRelays | null> {
+    if (isOutboxStale(this.outbox)) {
+      await this.startOutboxRefresh();
     }
+    return this.outbox;
+  }
 
-    return { success, total: this.relays.length };
+  /**
+   * Fetch the user's relay list in the background, sharing one request
+   * between callers
+   */
+  private startOutboxRefresh(): Promise<OutboxRelays | null> {
+    this.outboxRefresh ||= this.refreshOutboxRelays().finally(() => {
+      this.outboxRefresh = null;
+    });
+    return this.outboxRefresh;
   }
 
   /**
-   * Publish multiple events to relays
+   * Fetch the user's kind 10002 relay list and cache it with the auth state.
+   * Never rejects: on failure the previously cached list is kept.
    */
-  async publishEvents(events: VerifiedEvent[]): Promise<{ success: number; total: number }> {
-    let success = 0;
-    const total = events.length * this.relays.length;
+  private async refreshOutboxRelays(): Promise<OutboxRelays | null> {
+    const userPubkey = this.userPubkey;
+    if (!userPubkey) return null;
 
-    for (const event of events) {
-      const results = await Promise.allSettled(
-        this.pool.publish(this.relays, event)
+    // Relay list indexers are queried alongside the signer relays
+    const { indexers } = loadConfigOrDefault().outbox;
+
+    try {
+      const { events } = await this.query(
+        { kinds: [RELAY_LIST_KIND], authors: [userPubkey] },
+        [...new Set([...this.relays, ...indexers])]
       );
-      
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          success++;
-        }
-      }
+
+      // The identity may have changed while we were waiting
+      if (this.userPubkey !== userPubkey) return null;
+
+      // Relay lists are replaceable, so the newest one wins
+      const latest = events.find(e => e.pubkey === userPubkey);
+      this.outbox = latest
+        ? { ...parseRelayList(latest), fetchedAt: Date.now() }
+        : { read: [], write: [], eventId: null, createdAt: null, fetchedAt: Date.now() };
+
+      const outbox = this.outbox;
+      await updateAuthState(this.profile, state =>
+        state && state.userPubkey === userPubkey ? { ...state, outbox } : null
+      );
+    } catch {
+      // Keep whatever was cached before
+    }
+
+    return this.outbox;
+  }
+
+  /**
+   * Get the relays to publish the user's events to: their NIP-65 write relays
+   * (or the transport relays if they have none) plus any tool-specific relays
+   * @param extraRelays - Additional relays, e.g. ngit GRASP servers
+   */
+  async getPublishRelays(extraRelays: string[] = []): Promise<string[]> {
+    const outbox = await this.getOutboxRelays();
+    const writeRelays = outbox && outbox.write.length > 0 ? outbox.write : this.relays;
+    return [...new Set([...writeRelays, ...extraRelays])];
+  }
+
+  /**
+   * Publish a signed event to relays, reporting each relay's response
+   * @param relays - Relays to publish to (defaults to the user's publish relays)
+   */
+  async publishEvent(event: VerifiedEvent, relays?: string[]): Promise<PublishReport> {
+    return publishToRelays(this.pool, relays ?? await this.getPublishRelays(), event);
+  }
+
+  /**
+   * Query relays for events matching a NIP-01 filter
+   *
+   * Waits for EOSE from every relay (or the timeout), and returns events
+   * deduplicated across relays, newest first. Relays that require NIP-42
+   * auth are authenticated (if allowed) and asked again.
+   * @param relays - Relays to query (defaults to the configured relays)
+   * @param maxWait - Maximum time to wait for EOSE, in milliseconds
+   */
+  async query(filter: Filter, relays: string[] = this.relays, maxWait: number = QUERY_TIMEOUT): Promise<QueryResult> {
+    const restoreDebug = suppressDebug();
+    let result: QueryResult;
+    try {
+      result = await this.pool.query(relays, filter, maxWait);
+    } finally {
+      restoreDebug();
+    }
+
+    const unique = new Map<string, Event>();
+    for (const event of result.events) {
+      unique.set(event.id, event);
     }
+    return {
+      events: [...unique.values()].sort((a, b) => b.created_at - a.created_at),
+      auth: result.auth,
+    };
+  }
 
-    return { success, total };
+  /**
+   * Publish multiple events to relays, one report per event
+   * @param relays - Relays to publish to (defaults to the user's publish relays)
+   */
+  async publishEvents(events: VerifiedEvent[], relays?: string[]): Promise<PublishReport[]> {
+    const targets = relays ?? await this.getPublishRelays();
+    const reports: PublishReport[] = [];
+    for (const event of events) {
+      reports.push(await publishToRelays(this.pool, targets, event));
+    }
+    return reports;
   }
 }
 
-// Singleton instance
-let signerInstance: ShakespeareSigner | null = null;
+// One signer instance per profile
+const signerInstances = new Map<string, ShakespeareSigner>();
+
+/**
+ * Get the signer instance for a profile
+ */
+export function getProfileSigner(profile: string): ShakespeareSigner {
+  let signer = signerInstances.get(profile);
+  if (!signer) {
+    signer = new ShakespeareSigner(profile);
+    signerInstances.set(profile, signer);
+  }
+  return signer;
+}
+
+/**
+ * Get the signer for the profile that applies in a directory
+ * @param directory - Project directory (defaults to the current directory)
+ */
+export function getSigner(directory?: string): ShakespeareSigner {
+  return getProfileSigner(resolveProfile(directory).name);
+}
+
+/**
+ * Get the signer for a directory's profile, synced with auth.json first so
+ * it reflects connects and disconnects made by other processes
+ * @param directory - Project directory (defaults to the current directory)
+ */
+export async function getSyncedSigner(directory?: string): Promise<ShakespeareSigner> {
+  const signer = getSigner(directory);
+  await signer.syncWithDisk();
+  return signer;
+}
 
 /**
- * Get the singleton signer instance
+ * Drop a profile's signer instance, e.g. after the profile was removed
  */
-export function getSigner(): ShakespeareSigner {
-  if (!signerInstance) {
-    signerInstance = new ShakespeareSigner();
+export async function releaseSigner(profile: string): Promise<void> {
+  const signer = signerInstances.get(profile);
+  if (signer) {
+    signerInstances.delete(profile);
+    await signer.close();
   }
-  return signerInstance;
 }
@@ -1,14 +1,60 @@
 /**
  * Storage module for Shakespeare auth persistence
- * Stores NIP-46 connection state in ~/.config/shakespeare/auth.json
+ * Stores NIP-46 connection state in <config dir>/auth.json for the default
+ * profile and <config dir>/profiles/<name>/auth.json for named profiles.
+ * The config dir is ~/.config/shakespeare unless overridden, see config.ts.
+ *
+ * Files are written atomically with mode 0600 and guarded by lock files,
+ * see files.ts.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from 'node:fs';
-import { homedir } from 'node:os';
+import { existsSync, readFileSync, readdirSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { ensurePrivateDir, readJsonFile, withFileLock, writeFileAtomic, type LoadResult } from './files.js';
+import { getConfigDir } from './config.js';
+import { AUTH_STATE_VERSION, PENDING_CONNECTION_VERSION, SchemaError, parseAuthState, parsePendingConnection, type SchemaIssue } from './schema.js';
 
-export interface AuthState {
-  /** Client's secret key (nsec format) for relay communication */
+/**
+ * The user's NIP-65 relay list (kind 10002), cached with the auth state
+ */
+export interface OutboxRelays {
+  /** Relays the user reads from */
+  read: string[];
+  /** Relays the user publishes to */
+  write: string[];
+  /** Id of the relay list event, or null if the user has none */
+  eventId: string | null;
+  /** created_at of the relay list event, or null if the user has none */
+  createdAt: number | null;
+  /** Timestamp when the relay list was fetched */
+  fetchedAt: number;
+}
+
+/**
+ * A NIP-47 Nostr Wallet Connect connection, stored with the auth state
+ */
+export interface StoredWallet {
+  /** Wallet service public key (hex) */
+  walletPubkey: string;
+  /** Relays the wallet service listens on */
+  relays: string[];
+  /** Connection secret, encrypted with a passphrase (ncryptsec format) */
+  secret: string;
+  /** Lightning address of the wallet, if the connection string gave one */
+  lud16?: string;
+  /** Timestamp when the wallet was added */
+  addedAt: number;
+}
+
+/**
+ * Auth state for a NIP-46 remote signer connection
+ */
+export interface Nip46AuthState {
+  /** Schema version, set when saved */
+  version?: number;
+  /** Signer backend (absent in files written before backends existed) */
+  backend?: 'nip46';
+  /** Client's secret key for relay communication (nsec, or ncryptsec when encrypted at rest) */
   clientSecretKey: string;
   /** Client's public key (hex) */
   clientPubkey: string;
@@ -20,58 +66,239 @@ export interface AuthState {
   relays: string[];
   /** Timestamp when connection was established */
   connectedAt: number;
-  /** Permissions granted by the bunker */
+  /** Permissions granted by the bunker (e.g. sign_event:27235; bare sign_event allows any kind) */
   permissions: string[];
+  /** User's NIP-65 relay list, once fetched */
+  outbox?: OutboxRelays;
+  /** Wallet used by shakespeare_topup, if one was added */
+  wallet?: StoredWallet;
+}
+
+/**
+ * Auth state for a local NIP-49 encrypted key.
+ * Only the ncryptsec is stored; the decrypted key stays in memory.
+ */
+export interface LocalAuthState {
+  /** Schema version, set when saved */
+  version?: number;
+  backend: 'local';
+  /** User's secret key, encrypted with a passphrase (ncryptsec format) */
+  ncryptsec: string;
+  /** User's public key (hex) */
+  userPubkey: string;
+  /** Relays used for publishing */
+  relays: string[];
+  /** Timestamp when the key was configured */
+  connectedAt: number;
+  /** User's NIP-65 relay list, once fetched */
+  outbox?: OutboxRelays;
+  /** Wallet used by shakespeare_topup, if one was added */
+  wallet?: StoredWallet;
+}
+
+export type AuthState = Nip46AuthState | LocalAuthState;
+
+export { getConfigDir } from './config.js';
+
+/**
+ * Get the directory holding named profiles
+ */
+function getProfilesDir(): string {
+  return join(getConfigDir(), 'profiles');
 }
 
-const CONFIG_DIR = join(homedir(), '.config', 'shakespeare');
-const AUTH_FILE = join(CONFIG_DIR, 'auth.json');
+/**
+ * Get the file recording the globally active profile
+ */
+function getActiveProfileFile(): string {
+  return join(getConfigDir(), 'active-profile');
+}
+
+/** Name of the profile stored directly in the config directory */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Check that a profile name is safe to use as a directory name
+ */
+export function isValidProfileName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]{0,63}$/i.test(name);
+}
 
 /**
- * Ensure the config directory exists
+ * Get the directory holding a profile's files.
+ * The default profile lives in the config directory itself so that
+ * credentials saved before profiles existed keep working.
  */
-function ensureConfigDir(): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+export function getProfileDir(profile: string = DEFAULT_PROFILE): string {
+  if (profile === DEFAULT_PROFILE) {
+    return getConfigDir();
   }
+  if (!isValidProfileName(profile)) {
+    throw new Error(`Invalid profile name "${profile}". Use letters, numbers, "-" and "_".`);
+  }
+  return join(getProfilesDir(), profile);
 }
 
 /**
- * Load stored auth state
- * @returns Auth state if exists, null otherwise
+ * Check whether a stored key is NIP-49 encrypted (ncryptsec) rather than a plain nsec
+ */
+export function isEncryptedKey(key: string): boolean {
+  return key.startsWith('ncryptsec1');
+}
+
+/**
+ * Result of loading a state file. Besides the file-level failures, the
+ * contents can be `invalid`: valid JSON with broken or missing fields.
+ */
+export type StateLoadResult<T> =
+  | LoadResult<T>
+  | { status: 'invalid'; error: string; issues: SchemaIssue[] };
+
+/**
+ * Error for a stored file that exists but can't be used
  */
-export function loadAuthState(): AuthState | null {
+export class StorageError extends Error {
+  constructor(
+    readonly code: 'corrupt' | 'unreadable' | 'invalid',
+    readonly path: string,
+    detail: string,
+    /** Broken fields, for invalid files */
+    readonly issues: SchemaIssue[] = []
+  ) {
+    super(code === 'invalid'
+      ? `${path} has invalid fields: ${issues.map(i => `${i.field} ${i.problem}`).join('; ')}`
+      : `${path} is ${code}: ${detail}`);
+    this.name = 'StorageError';
+  }
+
+  /**
+   * How the user can fix the file
+   */
+  repairHint(): string {
+    switch (this.code) {
+      case 'unreadable':
+        return `Check the permissions of ${this.path}, or run shakespeare_disconnect then shakespeare_connect again.`;
+      case 'invalid':
+        return `Fix the fields listed above in ${this.path}, or run shakespeare_disconnect then shakespeare_connect again.`;
+      default:
+        return 'Run shakespeare_disconnect then shakespeare_connect again.';
+    }
+  }
+}
+
+/**
+ * Turn a failed load result into a StorageError (null if the file is just missing)
+ */
+export function toStorageError(result: StateLoadResult<unknown>, path: string): StorageError | null {
+  if (result.status === 'invalid') {
+    return new StorageError('invalid', path, result.error, result.issues);
+  }
+  if (result.status === 'corrupt' || result.status === 'unreadable') {
+    return new StorageError(result.status, path, result.error);
+  }
+  return null;
+}
+
+/**
+ * Migrate and validate a read file's contents
+ */
+function parseLoaded<T>(result: LoadResult<unknown>, parse: (raw: unknown) => T): StateLoadResult<T> {
+  if (result.status !== 'ok') {
+    return result;
+  }
   try {
-    if (!existsSync(AUTH_FILE)) {
-      return null;
+    return { status: 'ok', data: parse(result.data) };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      return { status: 'invalid', error: error.message, issues: error.issues };
     }
-    const data = readFileSync(AUTH_FILE, 'utf-8');
-    return JSON.parse(data) as AuthState;
-  } catch {
-    return null;
+    throw error;
   }
 }
 
+/**
+ * Ensure a profile's directory exists, readable only by the current user
+ */
+function ensureProfileDir(profile: string): void {
+  ensurePrivateDir(getProfileDir(profile));
+}
+
+/**
+ * Read stored auth state, reporting why it couldn't be loaded.
+ * Files from older plugin versions are migrated in memory; the file itself
+ * is upgraded the next time it is saved.
+ * @param profile - Profile to load (defaults to the default profile)
+ */
+export function readAuthState(profile: string = DEFAULT_PROFILE): StateLoadResult<AuthState> {
+  return parseLoaded(readJsonFile<unknown>(getAuthFilePath(profile)), parseAuthState);
+}
+
+/**
+ * Load stored auth state
+ * @param profile - Profile to load (defaults to the default profile)
+ * @returns Auth state if one is stored and readable, null otherwise.
+ * Use readAuthState to find out why nothing was loaded.
+ */
+export function loadAuthState(profile: string = DEFAULT_PROFILE): AuthState | null {
+  const result = readAuthState(profile);
+  return result.status === 'ok' ? result.data : null;
+}
+
 /**
  * Save auth state to disk
  * @param state - Auth state to persist
+ * @param profile - Profile to save into (defaults to the default profile)
+ */
+export async function saveAuthState(state: AuthState, profile: string = DEFAULT_PROFILE): Promise<void> {
+  ensureProfileDir(profile);
+  const authFile = getAuthFilePath(profile);
+  await withFileLock(authFile, () => writeFileAtomic(authFile, serializeAuthState(state)));
+}
+
+/**
+ * Serialize auth state with the current schema version
+ */
+function serializeAuthState(state: AuthState): string {
+  return JSON.stringify({ ...state, version: AUTH_STATE_VERSION }, null, 2);
+}
+
+/**
+ * Read, modify and write auth state while holding its lock, so changes
+ * made by another process in between aren't lost
+ * @param update - Returns the new state, or null to leave the file unchanged
+ * @throws StorageError if the stored state is corrupt, unreadable or invalid
  */
-export function saveAuthState(state: AuthState): void {
-  ensureConfigDir();
-  writeFileSync(AUTH_FILE, JSON.stringify(state, null, 2), 'utf-8');
+export async function updateAuthState(
+  profile: string,
+  update: (state: AuthState | null) => AuthState | null
+): Promise<AuthState | null> {
+  ensureProfileDir(profile);
+  const authFile = getAuthFilePath(profile);
+  return withFileLock(authFile, () => {
+    const result = parseLoaded(readJsonFile<unknown>(authFile), parseAuthState);
+    const error = toStorageError(result, authFile);
+    if (error) throw error;
+
+    const next = update(result.status === 'ok' ? result.data : null);
+    if (next) {
+      writeFileAtomic(authFile, serializeAuthState(next));
+    }
+    return next;
+  });
 }
 
 /**
  * Clear stored auth state (disconnect)
  * @returns true if state was cleared, false if no state existed
  */
-export function clearAuthState(): boolean {
+export async function clearAuthState(profile: string = DEFAULT_PROFILE): Promise<boolean> {
   try {
-    if (existsSync(AUTH_FILE)) {
-      unlinkSync(AUTH_FILE);
-      return true;
+    const authFile = getAuthFilePath(profile);
+    if (!existsSync(authFile)) {
+      return false;
     }
-    return false;
+    await withFileLock(authFile, () => rmSync(authFile, { force: true }));
+    return true;
   } catch {
     return false;
   }
@@ -80,63 +307,153 @@ export function clearAuthState(): boolean {
 /**
  * Check if user is authenticated
  */
-export function isAuthenticated(): boolean {
-  return loadAuthState() !== null;
+export function isAuthenticated(profile: string = DEFAULT_PROFILE): boolean {
+  return loadAuthState(profile) !== null;
 }
 
 /**
- * Get the config directory path
+ * Get the auth file path
  */
-export function getConfigDir(): string {
-  return CONFIG_DIR;
+export function getAuthFilePath(profile: string = DEFAULT_PROFILE): string {
+  return join(getProfileDir(profile), 'auth.json');
 }
 
 /**
- * Get the auth file path
+ * List all known profiles. The default profile is always included.
+ */
+export function listProfiles(): string[] {
+  const profiles = [DEFAULT_PROFILE];
+  try {
+    for (const entry of readdirSync(getProfilesDir(), { withFileTypes: true })) {
+      if (entry.isDirectory() && isValidProfileName(entry.name) && entry.name !== DEFAULT_PROFILE) {
+        profiles.push(entry.name);
+      }
+    }
+  } catch {
+    // No profiles directory yet
+  }
+  return profiles;
+}
+
+/**
+ * Check whether a profile has been created
+ */
+export function profileExists(profile: string): boolean {
+  return profile === DEFAULT_PROFILE || existsSync(getProfileDir(profile));
+}
+
+/**
+ * Create an empty named profile
  */
-export function getAuthFilePath(): string {
-  return AUTH_FILE;
+export function createProfile(profile: string): void {
+  ensureProfileDir(profile);
 }
 
+/**
+ * Remove a profile and all of its stored state.
+ * The default profile can't be deleted, only cleared.
+ */
+export async function deleteProfile(profile: string): Promise<void> {
+  if (profile === DEFAULT_PROFILE) {
+    await clearAuthState(profile);
+    await clearPendingConnection(profile);
+    return;
+  }
+  rmSync(getProfileDir(profile), { recursive: true, force: true });
+  if (loadActiveProfile() === profile) {
+    saveActiveProfile(DEFAULT_PROFILE);
+  }
+}
+
+/**
+ * Load the globally active profile name
+ */
+export function loadActiveProfile(): string {
+  try {
+    const name = readFileSync(getActiveProfileFile(), 'utf-8').trim();
+    return isValidProfileName(name) ? name : DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+/**
+ * Set the globally active profile name
+ */
+export function saveActiveProfile(profile: string): void {
+  ensureProfileDir(DEFAULT_PROFILE);
+  if (profile === DEFAULT_PROFILE) {
+    rmSync(getActiveProfileFile(), { force: true });
+    return;
+  }
+  writeFileAtomic(getActiveProfileFile(), `${profile}\n`);
+}
+
+/** Lifecycle of a pending nostrconnect:// connection */
+export type PendingStatus = 'pending' | 'approved' | 'expired';
+
 export interface PendingConnection {
+  /** Schema version, set when saved */
+  version?: number;
   clientSecretKey: string;
   clientPubkey: string;
   nostrconnectUri: string;
   relays: string[];
+  /** NIP-46 permissions requested in the nostrconnect:// URI */
+  permissions: string[];
+  /** Whether the signer has approved the connection yet */
+  status: PendingStatus;
+  /** Timestamp when the QR code was generated */
+  createdAt: number;
+  /** Timestamp after which the signer's approval is no longer awaited */
+  expiresAt: number;
+  /** User's public key (hex), set once the signer approves */
+  userPubkey?: string;
 }
 
-const PENDING_FILE = join(CONFIG_DIR, 'pending.json');
+/**
+ * Get the pending connection file path
+ */
+function getPendingFilePath(profile: string): string {
+  return join(getProfileDir(profile), 'pending.json');
+}
 
 /**
  * Save pending connection state
  */
-export function savePendingConnection(pending: PendingConnection): void {
-  ensureConfigDir();
-  writeFileSync(PENDING_FILE, JSON.stringify(pending, null, 2), 'utf-8');
+export async function savePendingConnection(pending: PendingConnection, profile: string = DEFAULT_PROFILE): Promise<void> {
+  ensureProfileDir(profile);
+  const pendingFile = getPendingFilePath(profile);
+  await withFileLock(pendingFile, () => writeFileAtomic(
+    pendingFile,
+    JSON.stringify({ ...pending, version: PENDING_CONNECTION_VERSION }, null, 2)
+  ));
+}
+
+/**
+ * Read pending connection state, reporting why it couldn't be loaded
+ */
+export function readPendingConnection(profile: string = DEFAULT_PROFILE): StateLoadResult<PendingConnection> {
+  return parseLoaded(readJsonFile<unknown>(getPendingFilePath(profile)), parsePendingConnection);
 }
 
 /**
  * Load pending connection state
+ * @returns Pending connection if one is stored and readable, null otherwise
  */
-export function loadPendingConnection(): PendingConnection | null {
-  try {
-    if (!existsSync(PENDING_FILE)) {
-      return null;
-    }
-    const data = readFileSync(PENDING_FILE, 'utf-8');
-    return JSON.parse(data) as PendingConnection;
-  } catch {
-    return null;
-  }
+export function loadPendingConnection(profile: string = DEFAULT_PROFILE): PendingConnection | null {
+  const result = readPendingConnection(profile);
+  return result.status === 'ok' ? result.data : null;
 }
 
 /**
  * Clear pending connection state
  */
-export function clearPendingConnection(): void {
+export async function clearPendingConnection(profile: string = DEFAULT_PROFILE): Promise<void> {
   try {
-    if (existsSync(PENDING_FILE)) {
-      unlinkSync(PENDING_FILE);
+    const pendingFile = getPendingFilePath(profile);
+    if (existsSync(pendingFile)) {
+      await withFileLock(pendingFile, () => rmSync(pendingFile, { force: true }));
     }
   } catch {
     // Ignore errors
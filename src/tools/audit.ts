@@ -0,0 +1,65 @@
+/**
+ * shakespeare_audit tool
+ * Review the signing audit log
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { readAuditLog, getAuditLogPath } from '../audit.js';
+
+/**
+ * Parse an ISO 8601 date or Unix timestamp (seconds) into milliseconds
+ */
+function parseTime(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const ms = Date.parse(trimmed);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid time "${value}". Use an ISO 8601 date or a Unix timestamp in seconds.`);
+  }
+  return ms;
+}
+
+export const audit = tool({
+  description: 'Review the local audit log of every event the plugin was asked to sign (by shakespeare_sign_event, shakespeare_deploy, shakespeare_ngit or the Shakespeare AI provider), including refused requests. Filter by time range, kind, tool and outcome.',
+  args: {
+    since: tool.schema.string().optional().describe('Only entries at or after this time (ISO 8601 date or Unix timestamp in seconds)'),
+    until: tool.schema.string().optional().describe('Only entries at or before this time (ISO 8601 date or Unix timestamp in seconds)'),
+    kind: tool.schema.number().optional().describe('Only entries for this event kind'),
+    tool: tool.schema.string().optional().describe('Only entries from this tool, e.g. shakespeare_deploy or shakespeare_provider'),
+    outcome: tool.schema.enum(['approved', 'rejected']).optional().describe('Only approved or only rejected requests'),
+    limit: tool.schema.number().optional().describe('Maximum number of most recent entries to return (default: 50)'),
+  },
+  async execute(args) {
+    let since: number | undefined;
+    let until: number | undefined;
+    try {
+      since = args.since ? parseTime(args.since) : undefined;
+      until = args.until ? parseTime(args.until) : undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: message });
+    }
+
+    const entries = readAuditLog({
+      since,
+      until,
+      kind: args.kind,
+      tool: args.tool,
+      outcome: args.outcome,
+      limit: args.limit ?? 50,
+    });
+
+    return JSON.stringify({
+      logFile: getAuditLogPath(),
+      count: entries.length,
+      approved: entries.filter(e => e.outcome === 'approved').length,
+      rejected: entries.filter(e => e.outcome === 'rejected').length,
+      entries: entries.map(e => ({
+        ...e,
+        timestamp: new Date(e.timestamp).toISOString(),
+      })),
+    }, null, 2);
+  },
+});
@@ -4,11 +4,11 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
 import { updateOpencodeAuth } from '../opencode-auth.js';
 
 export const complete = tool({
-  description: 'Complete the NIP-46 connection after scanning the QR code. This waits for the remote signer to respond and saves the connection state.',
+  description: 'Complete the NIP-46 connection after scanning the QR code. Returns immediately if the remote signer has already approved; otherwise waits for it to respond and saves the connection state.',
   args: {
     timeout: tool.schema
       .number()
@@ -16,17 +16,19 @@ export const complete = tool({
       .describe('Timeout in seconds to wait for connection (default: 300)'),
   },
   async execute(args) {
-    const signer = getSigner();
+    const signer = await getSyncedSigner();
+    const pendingStatus = signer.getPendingStatus();
     
-    // Check if already connected
-    if (signer.isConnected()) {
+    // Check if already connected (an approval received in the background
+    // still goes through completeConnection to clear the pending state)
+    if (signer.isConnected() && pendingStatus !== 'approved') {
       const status = signer.getStatus();
       await updateOpencodeAuth();
       return `Already connected as ${status.npub}.`;
     }
 
     // Check if there's a pending connection
-    if (!signer.hasPendingConnection()) {
+    if (!pendingStatus) {
       return 'No pending connection. Run shakespeare_connect first to generate a QR code.';
     }
 
@@ -1,22 +1,47 @@
 /**
  * shakespeare_connect tool
- * Initiates NIP-46 connection with QR code display
+ * Initiates NIP-46 connection with QR code display, connects
+ * directly to a bunker when given a bunker:// URI, or configures
+ * a local NIP-49 encrypted key for headless use
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner, DEFAULT_RELAYS } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
+import { DEFAULT_CONFIG } from '../config.js';
 import { updateOpencodeAuth } from '../opencode-auth.js';
+import { DEFAULT_PERMISSIONS, parsePermissions } from '../permissions.js';
+import { PASSPHRASE_ENV } from '../backends.js';
 
 export const connect = tool({
-  description: `Generate a nostrconnect:// URI and QR code for NIP-46 remote signing. Scan the QR code with Amber (Android) or Primal (Android/iOS) to connect. This will wait up to 5 minutes for you to scan and approve. Default relays: ${DEFAULT_RELAYS.join(', ')}`,
+  description: `Generate a nostrconnect:// URI and QR code for NIP-46 remote signing. Scan the QR code with Amber (Android) or Primal (Android/iOS) to connect. This will wait up to 5 minutes for you to scan and approve. Alternatively, pass a bunker:// URI from nsec.app or a self-hosted bunker to connect directly without a QR code, or an ncryptsec (NIP-49 encrypted key) for headless machines with no phone to approve requests. Default relays: the "relays" setting of the Shakespeare config (${DEFAULT_CONFIG.relays.join(', ')} unless configured)`,
   args: {
     relays: tool.schema
       .string()
       .optional()
-      .describe(`Comma-separated list of relay URLs to use for NIP-46 communication. Defaults to ${DEFAULT_RELAYS.join(', ')}`),
+      .describe('Comma-separated list of relay URLs to use for NIP-46 communication. Defaults to the configured relays.'),
+    bunker: tool.schema
+      .string()
+      .optional()
+      .describe('A bunker://<pubkey>?relay=wss://...&secret=... URI to connect directly to a remote signer. Skips the QR code and shakespeare_complete steps; relays are taken from the URI.'),
+    permissions: tool.schema
+      .string()
+      .optional()
+      .describe(`Comma-separated NIP-46 permissions to request, e.g. "sign_event:1,sign_event:27235,nip44_encrypt". Bare kind numbers are shorthand for sign_event:<kind>. Defaults to the kinds the plugin signs: ${DEFAULT_PERMISSIONS.join(',')}`),
+    ncryptsec: tool.schema
+      .string()
+      .optional()
+      .describe('A NIP-49 encrypted private key (ncryptsec1...) to sign locally instead of through a remote signer. Only the encrypted key is stored.'),
+    passphrase: tool.schema
+      .string()
+      .optional()
+      .describe(`Passphrase for the ncryptsec, or for encrypting the client key when encrypt is set. Prefer setting ${PASSPHRASE_ENV} in the environment instead, since tool arguments are visible in the session.`),
+    encrypt: tool.schema
+      .boolean()
+      .optional()
+      .describe(`Store the NIP-46 client key encrypted (NIP-49 ncryptsec) instead of as a plain nsec. Uses the passphrase argument or ${PASSPHRASE_ENV}; the key must be unlocked with the same passphrase in each new session.`),
   },
   async execute(args) {
-    const signer = getSigner();
+    const signer = await getSyncedSigner();
 
     // Check if already connected
     if (signer.isConnected()) {
@@ -26,6 +51,48 @@ export const connect = tool({
       return `Already connected as ${status.npub}. Use shakespeare_disconnect first if you want to reconnect with a different identity.`;
     }
 
+    let permissions = DEFAULT_PERMISSIONS;
+    if (args.permissions) {
+      try {
+        permissions = parsePermissions(args.permissions);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return `Connection failed: ${message}`;
+      }
+    }
+
+    let keyPassphrase: string | undefined;
+    if (args.encrypt && !args.ncryptsec) {
+      keyPassphrase = args.passphrase || process.env[PASSPHRASE_ENV];
+      if (!keyPassphrase) {
+        return `Connection failed: encrypting the client key needs a passphrase. Set ${PASSPHRASE_ENV} or pass the passphrase.`;
+      }
+    }
+
+    // Local encrypted key: no remote signer involved
+    if (args.ncryptsec) {
+      try {
+        const result = await signer.useLocalKey(args.ncryptsec, args.passphrase);
+        await updateOpencodeAuth();
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return `Connection failed: ${message}`;
+      }
+    }
+
+    // Direct bunker connection: single step, no pending state
+    if (args.bunker) {
+      try {
+        const result = await signer.connectBunker(args.bunker, permissions, keyPassphrase);
+        await updateOpencodeAuth();
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return `Connection failed: ${message}`;
+      }
+    }
+
     // Parse relays if provided
     const relays = args.relays
       ? args.relays.split(',').map(r => r.trim()).filter(r => r.startsWith('wss://'))
@@ -34,7 +101,7 @@ export const connect = tool({
     try {
       // Use two-step flow: show QR code immediately
       // User must run shakespeare_complete after scanning
-      const qrOutput = await signer.initiateConnection(relays);
+      const qrOutput = await signer.initiateConnection(relays, permissions, keyPassphrase);
       return qrOutput;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
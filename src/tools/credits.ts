@@ -0,0 +1,61 @@
+/**
+ * shakespeare_credits tool
+ * Show the Shakespeare AI credit balance and recent spend
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { loadConfig } from '../config.js';
+import { fetchBalance, fetchUsage, groupUsage } from '../credits.js';
+import { usd } from '../format.js';
+import { createNip98Fetch, getShakespeareProvider, type ShakespeareProvider } from '../provider.js';
+
+export const credits = tool({
+  description: 'Show the Shakespeare AI credit balance and recent spend grouped by day and model. Authenticates with the connected Nostr identity, like the Shakespeare AI provider. Use it to check how many credits are left before a long session, or after a completion fails for lack of credits.',
+  args: {
+    days: tool.schema.number().optional().describe('Number of days of usage to include (default: 7)'),
+  },
+  async execute(args, context) {
+    let provider: ShakespeareProvider;
+    try {
+      provider = getShakespeareProvider(loadConfig());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: message });
+    }
+
+    const days = Math.max(1, Math.floor(args.days ?? 7));
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    const { baseURL } = provider;
+    const fetchFn = createNip98Fetch(provider);
+
+    const [balance, usage] = await Promise.allSettled([
+      fetchBalance(fetchFn, baseURL, context.abort),
+      fetchUsage(fetchFn, baseURL, since, context.abort),
+    ]);
+
+    if (balance.status === 'rejected' && usage.status === 'rejected') {
+      const message = balance.reason instanceof Error ? balance.reason.message : String(balance.reason);
+      return JSON.stringify({ error: `Failed to fetch credits: ${message}` });
+    }
+
+    const groups = usage.status === 'fulfilled' ? groupUsage(usage.value) : [];
+
+    return JSON.stringify({
+      balance: balance.status === 'fulfilled'
+        ? {
+          usd: usd(balance.value.balance),
+          totalCredits: usd(balance.value.totalCredits),
+          totalUsage: usd(balance.value.totalUsage),
+        }
+        : { error: balance.reason instanceof Error ? balance.reason.message : String(balance.reason) },
+      usage: usage.status === 'fulfilled'
+        ? {
+          days,
+          requests: usage.value.length,
+          totalUsd: usd(usage.value.reduce((sum, record) => sum + record.cost, 0)),
+          byDay: groups.map(group => ({ ...group, cost: usd(group.cost) })),
+        }
+        : { error: usage.reason instanceof Error ? usage.reason.message : String(usage.reason) },
+    }, null, 2);
+  },
+});
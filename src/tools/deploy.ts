@@ -6,15 +6,13 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
+import { loadConfig } from '../config.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { NIP98 } from '@nostrify/nostrify';
 import { N64 } from '@nostrify/nostrify/utils';
 
-// Default deploy host
-const DEFAULT_HOST = 'shakespeare.wtf';
-
 /**
  * Recursively collect all files in a directory
  */
@@ -52,10 +50,11 @@ export const deploy = tool({
     host: tool.schema
       .string()
       .optional()
-      .describe('Deploy host. Defaults to shakespeare.wtf'),
+      .describe('Deploy host. Defaults to the "deploy.host" config setting (shakespeare.wtf unless configured)'),
   },
   async execute(args) {
-    const signer = getSigner();
+    const projectPath = args.projectPath || process.cwd();
+    const signer = await getSyncedSigner(projectPath);
 
     // Check if connected
     if (!signer.isConnected()) {
@@ -66,8 +65,13 @@ export const deploy = tool({
 3. Run shakespeare_deploy again`;
     }
 
-    const projectPath = args.projectPath || process.cwd();
-    const host = args.host || DEFAULT_HOST;
+    let host: string;
+    try {
+      host = args.host || loadConfig(projectPath).deploy.host;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return `Deployment failed: ${message}`;
+    }
     const distPath = path.join(projectPath, 'dist');
 
     // Check if dist directory exists
@@ -127,7 +131,7 @@ Make sure your build output includes an index.html file.`;
 
       // Create NIP-98 auth token using the same method as Shakespeare web
       const template = await NIP98.template(request);
-      const signedEvent = await signer.signEvent(template);
+      const signedEvent = await signer.signEvent(template, { tool: 'shakespeare_deploy' });
       const token = N64.encodeEvent(signedEvent);
 
       // Add Authorization header
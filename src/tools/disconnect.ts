@@ -4,14 +4,14 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
 import { clearOpencodeAuth } from '../opencode-auth.js';
 
 export const disconnect = tool({
   description: 'Disconnect from the current Nostr remote signer session and clear stored credentials. Use this to switch to a different Nostr identity or to log out.',
   args: {},
   async execute() {
-    const signer = getSigner();
+    const signer = await getSyncedSigner();
 
     if (!signer.isConnected()) {
       return 'Not currently connected. Nothing to disconnect.';
@@ -0,0 +1,134 @@
+/**
+ * shakespeare_generate_image tool
+ * Generate an image with a Shakespeare AI image model and save it in the project
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSyncedSigner } from '../signer.js';
+import { loadConfig } from '../config.js';
+import { createNip98Fetch, getShakespeareProvider, type ShakespeareProvider } from '../provider.js';
+import { imagePrice, isImageModel, loadModelCache, refreshModels } from '../models.js';
+import type { ShakespeareModel } from '../models.js';
+import { requestImage } from '../images.js';
+import { appendUsageEntry } from '../ledger.js';
+
+/**
+ * Turn a prompt into a short file name
+ */
+function slugify(prompt: string): string {
+  const slug = prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40).replace(/-$/, '');
+  return slug || 'image';
+}
+
+export const generateImage = tool({
+  description: 'Generate an image (avatar, banner, icon, placeholder art) with a Shakespeare AI image model and save it in the project, by default under public/. Set list to see the available image models and their prices. Reports the file path and the cost.',
+  args: {
+    prompt: tool.schema.string().optional().describe('Description of the image to generate'),
+    model: tool.schema.string().optional().describe('Image model id (default: the first image model listed by Shakespeare AI)'),
+    size: tool.schema.string().optional().describe('Image size as WIDTHxHEIGHT (default: 1024x1024)'),
+    format: tool.schema.enum(['png', 'jpeg', 'webp']).optional().describe('Image format (default: png)'),
+    path: tool.schema.string().optional().describe('Where to save the image, relative to the project (default: public/<prompt>.<format>)'),
+    overwrite: tool.schema.boolean().optional().describe('Replace the file if it already exists (default: false)'),
+    list: tool.schema.boolean().optional().describe('Only list the available image models'),
+  },
+  async execute(args, context) {
+    const projectPath = process.cwd();
+
+    let provider: ShakespeareProvider;
+    let models: ShakespeareModel[];
+    try {
+      provider = getShakespeareProvider(loadConfig(projectPath));
+      const { baseURL } = provider;
+      const cache = loadModelCache(baseURL) ?? await refreshModels(baseURL);
+      models = cache.models.filter(isImageModel);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: `Failed to load image models: ${message}` });
+    }
+
+    if (args.list || !args.prompt) {
+      return JSON.stringify({
+        models: models.map(model => ({
+          id: model.id,
+          name: model.name ?? model.id,
+          pricePerImageUsd: imagePrice(model),
+        })),
+        ...(args.list ? {} : { error: 'A prompt is required to generate an image' }),
+      }, null, 2);
+    }
+
+    const model = args.model ? models.find(m => m.id === args.model) : models[0];
+    if (!model) {
+      return JSON.stringify({
+        error: args.model
+          ? `"${args.model}" is not an image model. Available: ${models.map(m => m.id).join(', ') || 'none'}`
+          : 'Shakespeare AI lists no image models. Run shakespeare_models with refresh to update the list.',
+      });
+    }
+
+    const size = args.size ?? '1024x1024';
+    if (!/^\d{2,5}x\d{2,5}$/.test(size)) {
+      return JSON.stringify({ error: `Invalid size "${size}". Use WIDTHxHEIGHT, e.g. 1024x1024.` });
+    }
+
+    const format = args.format ?? 'png';
+    const signer = await getSyncedSigner(projectPath);
+    if (!signer.isConnected()) {
+      return JSON.stringify({ error: 'Not connected. Use shakespeare_connect first.' });
+    }
+
+    try {
+      const image = await requestImage(createNip98Fetch(provider), provider.baseURL, {
+        model: model.id,
+        prompt: args.prompt,
+        size,
+        format,
+      }, context.abort);
+
+      // A default path takes the extension of what the model actually returned
+      const extension = image.format === 'jpeg' ? 'jpg' : image.format ?? format;
+      const target = path.resolve(projectPath, args.path ?? path.join('public', `${slugify(args.prompt)}.${extension}`));
+      const relative = path.relative(projectPath, target);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return JSON.stringify({ error: `Refusing to write outside the project: ${target}` });
+      }
+      if (fs.existsSync(target) && !args.overwrite) {
+        return JSON.stringify({ error: `${relative} already exists. Choose another path or set overwrite.` });
+      }
+
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, image.data);
+
+      const cost = image.cost ?? imagePrice(model);
+      appendUsageEntry({
+        timestamp: Date.now(),
+        profile: signer.getProfile(),
+        sessionId: context.sessionID,
+        agent: context.agent,
+        project: projectPath,
+        provider: provider.id,
+        model: model.id,
+        promptTokens: 0,
+        completionTokens: 0,
+        cachedTokens: 0,
+        cost,
+      });
+
+      return JSON.stringify({
+        path: relative,
+        model: model.id,
+        size,
+        format: image.format ?? format,
+        bytes: image.data.length,
+        costUsd: cost,
+        ...(image.revisedPrompt ? { revisedPrompt: image.revisedPrompt } : {}),
+        ...(image.format && image.format !== format ? { note: `The model returned ${image.format} instead of ${format}` } : {}),
+      }, null, 2);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: `Image generation failed: ${message}` });
+    }
+  },
+});
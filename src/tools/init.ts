@@ -6,8 +6,7 @@
 import { tool } from '@opencode-ai/plugin';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
-
-const MKSTACK_REPO = 'https://gitlab.com/soapbox-pub/mkstack.git';
+import { loadConfig } from '../config.js';
 
 /**
  * OpenCode configuration for Shakespeare projects
@@ -42,6 +41,16 @@ export const init = tool({
     const parentDir = args.directory || process.cwd();
     const projectPath = join(parentDir, projectName);
 
+    let templateRepo: string;
+    try {
+      templateRepo = loadConfig(parentDir).init.templateRepo;
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     // Check if directory already exists
     if (existsSync(projectPath)) {
       return JSON.stringify({
@@ -55,10 +64,10 @@ export const init = tool({
       action: 'clone_and_setup',
       projectName,
       projectPath,
-      repo: MKSTACK_REPO,
+      repo: templateRepo,
       opencodeConfig: OPENCODE_CONFIG,
       instructions: [
-        `Clone the mkstack repository: git clone ${MKSTACK_REPO} ${projectName}`,
+        `Clone the mkstack repository: git clone ${templateRepo} ${projectName}`,
         `Change to project directory: cd ${projectName}`,
         `Remove the .git directory: rm -rf .git`,
         `Initialize new git repo: git init`,
@@ -68,7 +77,7 @@ export const init = tool({
         `The project is now ready for development!`,
       ],
       commands: [
-        `git clone ${MKSTACK_REPO} "${projectPath}"`,
+        `git clone ${templateRepo} "${projectPath}"`,
         `rm -rf "${projectPath}/.git"`,
         `git init "${projectPath}"`,
       ],
@@ -0,0 +1,64 @@
+/**
+ * shakespeare_models tool
+ * List the models of Shakespeare AI (or a Shakespeare-compatible provider) and their metadata
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { loadConfig } from '../config.js';
+import { SHAKESPEARE_PROVIDER_ID, getShakespeareProviders } from '../provider.js';
+import { getModelCachePath, isModelCacheStale, loadModelCache, refreshModels, toProviderModels } from '../models.js';
+import type { ModelCache } from '../models.js';
+
+export const models = tool({
+  description: 'List the Shakespeare AI models (or those of a Shakespeare-compatible provider from the config file) with their context window, output limit, pricing (USD per million tokens) and capabilities. Uses the cached model list unless it is missing or refresh is set; a refreshed list is used by OpenCode from the next startup.',
+  args: {
+    provider: tool.schema.string().optional().describe(`Provider id from the config file (default: ${SHAKESPEARE_PROVIDER_ID})`),
+    refresh: tool.schema.boolean().optional().describe('Fetch the model list from the API even if the cache is fresh (default: false)'),
+  },
+  async execute(args) {
+    let providers;
+    try {
+      providers = getShakespeareProviders(loadConfig());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: message });
+    }
+
+    const providerId = args.provider ?? SHAKESPEARE_PROVIDER_ID;
+    const provider = providers.find(entry => entry.id === providerId);
+    if (!provider) {
+      return JSON.stringify({
+        error: `Unknown provider "${providerId}". Configured providers: ${providers.map(entry => entry.id).join(', ')}`,
+      });
+    }
+    const { baseURL } = provider;
+
+    let cache: ModelCache | null = loadModelCache(baseURL);
+    let refreshError: string | null = null;
+
+    if (args.refresh || !cache) {
+      try {
+        cache = await refreshModels(baseURL);
+      } catch (error) {
+        refreshError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    if (!cache) {
+      return JSON.stringify({ error: `Failed to fetch models from ${baseURL}: ${refreshError}` });
+    }
+
+    const configs = toProviderModels(cache.models);
+
+    return JSON.stringify({
+      provider: provider.id,
+      baseURL,
+      cacheFile: getModelCachePath(),
+      fetchedAt: new Date(cache.fetchedAt).toISOString(),
+      stale: isModelCacheStale(cache),
+      refreshError,
+      count: cache.models.length,
+      models: Object.entries(configs).map(([id, config]) => ({ id, ...config })),
+    }, null, 2);
+  },
+});
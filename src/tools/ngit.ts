@@ -11,17 +11,13 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner, DEFAULT_RELAYS } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
+import { loadConfig } from '../config.js';
 import { execSync, spawnSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { nip19 } from 'nostr-tools';
-
-// Default GRASP servers for ngit
-const DEFAULT_GRASP_SERVERS = [
-  'wss://git.shakespeare.diy',
-  'wss://relay.ngit.dev',
-];
+import { formatPublishReport } from '../publish.js';
 
 interface RepoState {
   identifier: string;
@@ -208,8 +204,8 @@ export const ngit = tool({
       .describe('Repository identifier (d-tag). Must be kebab-case. Defaults to directory name.'),
   },
   async execute(args) {
-    const signer = getSigner();
     const projectPath = args.projectPath || process.cwd();
+    const signer = await getSyncedSigner(projectPath);
 
     // Check if it's a git repository
     const gitDir = path.join(projectPath, '.git');
@@ -240,6 +236,8 @@ After connecting, run this command again to publish to Nostr Git.`;
     }
 
     try {
+      const { graspServers } = loadConfig(projectPath).ngit;
+
       // Get repository state
       const repoState = getRepoState(projectPath);
 
@@ -281,7 +279,7 @@ Then run shakespeare_ngit again.`;
         }
 
         // Add relays
-        for (const relay of DEFAULT_GRASP_SERVERS) {
+        for (const relay of graspServers) {
           ngitArgs.push('--relays', relay);
         }
 
@@ -331,8 +329,6 @@ To clone this repository:
       }
 
       // Fallback: publish Nostr events only (no git object push)
-      const graspServers = DEFAULT_GRASP_SERVERS;
-      const relays = signer.getRelays();
 
       // Build clone URLs
       const cloneUrls: string[] = [];
@@ -346,7 +342,8 @@ To clone this repository:
         }
       }
 
-      const allRelays = [...new Set([...graspServers, ...relays])];
+      // The user's outbox relays plus the GRASP servers hosting the repo
+      const allRelays = await signer.getPublishRelays(graspServers);
 
       // Create and sign repository announcement
       const repoAnnouncement = createRepoAnnouncementEvent({
@@ -356,14 +353,14 @@ To clone this repository:
         cloneUrls,
         relays: allRelays,
       });
-      const signedRepo = await signer.signEvent(repoAnnouncement);
+      const signedRepo = await signer.signEvent(repoAnnouncement, { tool: 'shakespeare_ngit' });
 
       // Create and sign repository state
       const stateEvent = createRepoStateEvent(repoState);
-      const signedState = await signer.signEvent(stateEvent);
+      const signedState = await signer.signEvent(stateEvent, { tool: 'shakespeare_ngit' });
 
       // Publish events
-      const publishResults = await signer.publishEvents([signedRepo, signedState]);
+      const [repoReport, stateReport] = await signer.publishEvents([signedRepo, signedState], allRelays);
 
       // Generate nostr:// URI
       const nostrUri = `nostr://${npub}/${repoState.identifier}`;
@@ -380,9 +377,11 @@ ${cloneUrls.map(u => `  ${u}`).join('\n')}
 
 Branches: ${repoState.branches.map(b => b.name).join(', ')}
 ${repoState.tags.length > 0 ? `Tags: ${repoState.tags.map(t => t.name).join(', ')}\n` : ''}
-Events published to ${publishResults.success} relay(s):
-  - Repository announcement (kind 30617): ${signedRepo.id.substring(0, 8)}...
-  - Repository state (kind 30618): ${signedState.id.substring(0, 8)}...
+Events published:
+  - Repository announcement (kind 30617): ${signedRepo.id.substring(0, 8)}... (${repoReport.success}/${repoReport.total} relays)
+${formatPublishReport(repoReport)}
+  - Repository state (kind 30618): ${signedState.id.substring(0, 8)}... (${stateReport.success}/${stateReport.total} relays)
+${formatPublishReport(stateReport)}
 
 Note: Git objects were not pushed. To push git objects, install ngit:
   cargo install ngit
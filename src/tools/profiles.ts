@@ -0,0 +1,37 @@
+/**
+ * shakespeare_list_profiles tool
+ * List named identity profiles
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { nip19 } from 'nostr-tools';
+import { getAuthFilePath, listProfiles, readAuthState, loadActiveProfile, toStorageError } from '../storage.js';
+import { resolveProfile } from '../profiles.js';
+
+export const profiles = tool({
+  description: 'List saved Nostr identity profiles, showing which one is globally active, which one applies in the current project, and the npub each profile is connected as.',
+  args: {},
+  async execute() {
+    const active = loadActiveProfile();
+    const current = resolveProfile();
+
+    const list = listProfiles().map(name => {
+      const result = readAuthState(name);
+      const state = result.status === 'ok' ? result.data : null;
+      return {
+        name,
+        connected: state !== null,
+        npub: state ? nip19.npubEncode(state.userPubkey) : null,
+        active: name === active,
+        current: name === current.name,
+        error: toStorageError(result, getAuthFilePath(name))?.message ?? null,
+      };
+    });
+
+    return JSON.stringify({
+      profiles: list,
+      current: current.name,
+      pinnedBy: current.pinnedBy,
+    }, null, 2);
+  },
+});
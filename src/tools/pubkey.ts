@@ -4,13 +4,13 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
 
 export const pubkey = tool({
   description: 'Get the public key of the currently connected Nostr user. Returns both hex and npub formats.',
   args: {},
   async execute() {
-    const signer = getSigner();
+    const signer = await getSyncedSigner();
 
     if (!signer.isConnected()) {
       return JSON.stringify({
@@ -0,0 +1,125 @@
+/**
+ * shakespeare_publish_event tool
+ * Sign (if needed) and publish a Nostr event, reporting per-relay results
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { verifyEvent } from 'nostr-tools';
+import type { EventTemplate, VerifiedEvent } from 'nostr-tools';
+import { getSyncedSigner } from '../signer.js';
+import { PolicyError, contextConfirm } from '../policy.js';
+
+export const publish = tool({
+  description: 'Publish a Nostr event to relays. Either give kind/content/tags to have the event signed by the connected signer first, or pass an already-signed event as JSON. Reports each relay\'s OK or rejection message and any NOTICEs, retrying transient failures and authenticating (NIP-42) to allowed relays that require it. Signing is subject to the signing policy and granted permissions.',
+  args: {
+    kind: tool.schema.number().optional().describe('The Nostr event kind number (when signing a new event)'),
+    content: tool.schema.string().optional().describe('The event content (when signing a new event)'),
+    tags: tool.schema.string().optional().describe('JSON array of tags, e.g., [["p", "pubkey"], ["e", "eventid"]]'),
+    created_at: tool.schema.number().optional().describe('Unix timestamp. Defaults to current time if not provided.'),
+    event: tool.schema.string().optional().describe('An already-signed event as JSON. When given, kind/content/tags are ignored and the event is published as-is.'),
+    relays: tool.schema.string().optional().describe('Comma-separated relay URLs to publish to. Defaults to the user\'s NIP-65 write relays (or the connected relays if they have no relay list).'),
+  },
+  async execute(args, context) {
+    const signer = await getSyncedSigner();
+
+    const relays = args.relays
+      ? args.relays.split(',').map(r => r.trim()).filter(r => r.startsWith('wss://') || r.startsWith('ws://'))
+      : await signer.getPublishRelays();
+
+    if (relays.length === 0) {
+      return JSON.stringify({
+        error: 'No valid relay URLs given (expected wss://...)',
+        success: false,
+      });
+    }
+
+    let event: VerifiedEvent;
+
+    if (args.event) {
+      // Publish a pre-signed event as-is
+      try {
+        const parsed = JSON.parse(args.event);
+        if (!verifyEvent(parsed)) {
+          return JSON.stringify({
+            error: 'Event signature or id is invalid',
+            success: false,
+          });
+        }
+        event = parsed;
+      } catch {
+        return JSON.stringify({
+          error: 'Invalid event JSON format',
+          success: false,
+        });
+      }
+    } else {
+      if (args.kind === undefined) {
+        return JSON.stringify({
+          error: 'Provide either kind (and content/tags) to sign a new event, or event with a signed event',
+          success: false,
+        });
+      }
+
+      if (!signer.isConnected()) {
+        return JSON.stringify({
+          error: 'Not connected. Use shakespeare_connect first to authenticate.',
+          success: false,
+        });
+      }
+
+      let tags: string[][] = [];
+      if (args.tags) {
+        try {
+          tags = JSON.parse(args.tags);
+          if (!Array.isArray(tags)) {
+            return JSON.stringify({
+              error: 'Tags must be a JSON array',
+              success: false,
+            });
+          }
+        } catch {
+          return JSON.stringify({
+            error: 'Invalid tags JSON format',
+            success: false,
+          });
+        }
+      }
+
+      const template: EventTemplate = {
+        kind: args.kind,
+        content: args.content ?? '',
+        tags,
+        created_at: args.created_at ?? Math.floor(Date.now() / 1000),
+      };
+
+      try {
+        event = await signer.signEvent(template, {
+          tool: 'shakespeare_publish_event',
+          confirm: contextConfirm(context),
+        });
+      } catch (error) {
+        if (error instanceof PolicyError) {
+          return JSON.stringify({
+            error: error.toJSON(),
+            success: false,
+          }, null, 2);
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return JSON.stringify({
+          error: `Signing failed: ${message}`,
+          success: false,
+        });
+      }
+    }
+
+    const report = await signer.publishEvent(event, relays);
+
+    return JSON.stringify({
+      success: report.success > 0,
+      event,
+      published: `${report.success}/${report.total} relays`,
+      relays: report.relays,
+      authRequired: report.authRequired,
+    }, null, 2);
+  },
+});
@@ -0,0 +1,159 @@
+/**
+ * shakespeare_query tool
+ * Read events from Nostr relays using NIP-01 filters
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { nip19 } from 'nostr-tools';
+import type { Filter } from 'nostr-tools';
+import { getSyncedSigner } from '../signer.js';
+import { isRecord } from '../json.js';
+
+const HEX_64 = /^[0-9a-f]{64}$/i;
+
+/**
+ * Resolve an npub, nprofile or hex pubkey to hex, collecting relay hints
+ */
+function resolvePubkey(input: string, relayHints: Set<string>): string {
+  const value = input.trim().replace(/^nostr:/, '');
+  if (HEX_64.test(value)) return value.toLowerCase();
+
+  const decoded = nip19.decode(value);
+  if (decoded.type === 'npub') return decoded.data;
+  if (decoded.type === 'nprofile') {
+    decoded.data.relays?.forEach(r => relayHints.add(r));
+    return decoded.data.pubkey;
+  }
+  throw new Error(`Expected an npub, nprofile or hex pubkey, got ${decoded.type}`);
+}
+
+/**
+ * Resolve a note, nevent or hex event id to hex, collecting relay hints
+ */
+function resolveEventId(input: string, relayHints: Set<string>): string {
+  const value = input.trim().replace(/^nostr:/, '');
+  if (HEX_64.test(value)) return value.toLowerCase();
+
+  const decoded = nip19.decode(value);
+  if (decoded.type === 'note') return decoded.data;
+  if (decoded.type === 'nevent') {
+    decoded.data.relays?.forEach(r => relayHints.add(r));
+    return decoded.data.id;
+  }
+  throw new Error(`Expected a note, nevent or hex event id, got ${decoded.type}`);
+}
+
+/**
+ * Split a comma-separated argument into trimmed, non-empty values
+ */
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(v => v.trim()).filter(v => v.length > 0) : [];
+}
+
+export const query = tool({
+  description: 'Query Nostr relays for events using NIP-01 filters, e.g. to check that a deployed app\'s events exist, look up a repository announcement or read a profile. Accepts npub/nprofile/naddr/nevent/note identifiers as well as hex. Waits for all relays to finish (or the timeout), deduplicates events across relays and returns them newest first as compact JSON. Allowed relays that require NIP-42 auth are authenticated and asked again; authRequired lists the relays that asked.',
+  args: {
+    kinds: tool.schema.string().optional().describe('Comma-separated event kinds, e.g. "0,1"'),
+    authors: tool.schema.string().optional().describe('Comma-separated authors as npub, nprofile or hex pubkeys. Use "me" for the connected user.'),
+    ids: tool.schema.string().optional().describe('Comma-separated event ids as note, nevent or hex'),
+    address: tool.schema.string().optional().describe('An naddr for an addressable event (sets kind, author and #d)'),
+    tags: tool.schema.string().optional().describe('JSON object of tag filters, e.g. {"#d": ["my-repo"], "#t": ["nostr"]}. Values for "#p" may be npubs.'),
+    since: tool.schema.number().optional().describe('Only events created at or after this Unix timestamp (seconds)'),
+    until: tool.schema.number().optional().describe('Only events created at or before this Unix timestamp (seconds)'),
+    limit: tool.schema.number().optional().describe('Maximum number of events (default: 20)'),
+    relays: tool.schema.string().optional().describe('Comma-separated relay URLs to query. Defaults to the connected relays plus any relay hints in the given identifiers.'),
+    timeout: tool.schema.number().optional().describe('Seconds to wait for relays to finish sending events (default: 5)'),
+  },
+  async execute(args) {
+    const signer = await getSyncedSigner();
+    const relayHints = new Set<string>();
+    const filter: Filter = { limit: args.limit ?? 20 };
+
+    try {
+      const kinds = splitList(args.kinds).map(k => {
+        const kind = Number(k);
+        if (!Number.isInteger(kind) || kind < 0) throw new Error(`Invalid kind "${k}"`);
+        return kind;
+      });
+      if (kinds.length > 0) filter.kinds = kinds;
+
+      const authors = splitList(args.authors).map(a => {
+        if (a === 'me') {
+          const pubkey = signer.getUserPubkey();
+          if (!pubkey) throw new Error('"me" requires an active connection. Use shakespeare_connect first.');
+          return pubkey;
+        }
+        return resolvePubkey(a, relayHints);
+      });
+      if (authors.length > 0) filter.authors = authors;
+
+      const ids = splitList(args.ids).map(id => resolveEventId(id, relayHints));
+      if (ids.length > 0) filter.ids = ids;
+
+      if (args.address) {
+        const decoded = nip19.decode(args.address.trim().replace(/^nostr:/, ''));
+        if (decoded.type !== 'naddr') {
+          throw new Error(`Expected an naddr address, got ${decoded.type}`);
+        }
+        filter.kinds = [decoded.data.kind];
+        filter.authors = [decoded.data.pubkey];
+        filter['#d'] = [decoded.data.identifier];
+        decoded.data.relays?.forEach(r => relayHints.add(r));
+      }
+
+      if (args.tags) {
+        const tags = JSON.parse(args.tags);
+        if (!isRecord(tags)) {
+          throw new Error('Tags must be a JSON object like {"#d": ["value"]}');
+        }
+        for (const [key, values] of Object.entries(tags)) {
+          const name = key.startsWith('#') ? key : `#${key}`;
+          if (!Array.isArray(values) || !values.every(v => typeof v === 'string')) {
+            throw new Error(`Tag filter ${name} must be an array of strings`);
+          }
+          filter[name as `#${string}`] = name === '#p'
+            ? values.map(v => resolvePubkey(v, relayHints))
+            : name === '#e'
+              ? values.map(v => resolveEventId(v, relayHints))
+              : values;
+        }
+      }
+
+      if (args.since !== undefined) filter.since = args.since;
+      if (args.until !== undefined) filter.until = args.until;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: `Invalid query: ${message}` });
+    }
+
+    const relays = args.relays
+      ? splitList(args.relays).filter(r => r.startsWith('wss://') || r.startsWith('ws://'))
+      : [...new Set([...signer.getRelays(), ...relayHints])];
+
+    if (relays.length === 0) {
+      return JSON.stringify({ error: 'No valid relay URLs given (expected wss://...)' });
+    }
+
+    try {
+      const { events, auth } = await signer.query(filter, relays, (args.timeout ?? 5) * 1000);
+
+      return JSON.stringify({
+        filter,
+        relays,
+        authRequired: auth,
+        count: events.length,
+        events: events.map(e => ({
+          id: e.id,
+          pubkey: e.pubkey,
+          kind: e.kind,
+          created_at: e.created_at,
+          tags: e.tags,
+          content: e.content,
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: `Query failed: ${message}` });
+    }
+  },
+});
@@ -0,0 +1,29 @@
+/**
+ * shakespeare_remove_profile tool
+ * Delete a named identity profile and its stored credentials
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { releaseSigner } from '../signer.js';
+import { DEFAULT_PROFILE, isValidProfileName, profileExists, deleteProfile } from '../storage.js';
+
+export const removeProfile = tool({
+  description: 'Remove a saved Nostr identity profile and delete its stored credentials. Removing the "default" profile only clears its credentials. If the removed profile was active, the default profile becomes active.',
+  args: {
+    name: tool.schema.string().describe('Name of the profile to remove'),
+  },
+  async execute(args) {
+    const name = args.name.trim();
+
+    if (!isValidProfileName(name) || !profileExists(name)) {
+      return `Profile "${name}" does not exist. Use shakespeare_list_profiles to see saved profiles.`;
+    }
+
+    await releaseSigner(name);
+    await deleteProfile(name);
+
+    return name === DEFAULT_PROFILE
+      ? 'Cleared credentials for the default profile.'
+      : `Removed profile "${name}".`;
+  },
+});
@@ -4,19 +4,20 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
+import { getSyncedSigner } from '../signer.js';
+import { PolicyError, contextConfirm } from '../policy.js';
 import type { EventTemplate } from 'nostr-tools';
 
 export const sign = tool({
-  description: 'Sign a Nostr event using the connected NIP-46 remote signer. Requires an active connection (use shakespeare_connect first). The event will be signed by the user\'s private key held in their bunker app.',
+  description: 'Sign a Nostr event using the connected NIP-46 remote signer. Requires an active connection (use shakespeare_connect first). The event will be signed by the user\'s private key held in their bunker app. Requests are checked against the signing policy (~/.config/shakespeare/policy.json); kinds 0, 3, 5 and 10002 are blocked unless the policy allows them. Kinds outside the permissions granted at connect time are refused; reconnect with those permissions to sign them.',
   args: {
     kind: tool.schema.number().describe('The Nostr event kind number'),
     content: tool.schema.string().describe('The event content'),
     tags: tool.schema.string().optional().describe('JSON array of tags, e.g., [["p", "pubkey"], ["e", "eventid"]]'),
     created_at: tool.schema.number().optional().describe('Unix timestamp. Defaults to current time if not provided.'),
   },
-  async execute(args) {
-    const signer = getSigner();
+  async execute(args, context) {
+    const signer = await getSyncedSigner();
 
     if (!signer.isConnected()) {
       return JSON.stringify({
@@ -52,13 +53,22 @@ export const sign = tool({
         created_at: args.created_at ?? Math.floor(Date.now() / 1000),
       };
 
-      const signedEvent = await signer.signEvent(template);
+      const signedEvent = await signer.signEvent(template, {
+        tool: 'shakespeare_sign_event',
+        confirm: contextConfirm(context),
+      });
 
       return JSON.stringify({
         success: true,
         event: signedEvent,
       }, null, 2);
     } catch (error) {
+      if (error instanceof PolicyError) {
+        return JSON.stringify({
+          error: error.toJSON(),
+          success: false,
+        }, null, 2);
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       return JSON.stringify({
         error: `Signing failed: ${message}`,
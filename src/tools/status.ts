@@ -4,29 +4,115 @@
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { getSigner } from '../signer.js';
-import { getConfigDir } from '../storage.js';
+import { getSyncedSigner } from '../signer.js';
+import { getConfigDir, type OutboxRelays } from '../storage.js';
+import { resolveProfile } from '../profiles.js';
+import { getConfigFiles, loadConfig, loadConfigOrDefault } from '../config.js';
+import { loadModelCache } from '../models.js';
+import { getShakespeareProviders } from '../provider.js';
+import type { PendingConnectionStatus } from '../signer.js';
+
+/**
+ * Format the cached NIP-65 relay list with a readable timestamp
+ */
+function formatOutbox(outbox: OutboxRelays | null) {
+  if (!outbox) return null;
+  return {
+    write: outbox.write,
+    read: outbox.read,
+    fetchedAt: new Date(outbox.fetchedAt).toISOString(),
+  };
+}
+
+/**
+ * Describe the config files in effect and whether they are valid
+ */
+function configInfo() {
+  let error: string | null = null;
+  try {
+    loadConfig();
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  return { files: getConfigFiles(), error };
+}
+
+/**
+ * Describe Shakespeare AI and the Shakespeare-compatible providers, with
+ * their cached model lists
+ */
+function providersInfo() {
+  // configInfo() reports an invalid config; the provider hook uses the built-in settings
+  return getShakespeareProviders(loadConfigOrDefault()).map(({ id, name, baseURL }) => {
+    const cache = loadModelCache(baseURL);
+    return {
+      id,
+      name,
+      baseURL,
+      models: cache ? cache.models.length : null,
+      modelsFetchedAt: cache ? new Date(cache.fetchedAt).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Format pending connection info with readable timestamps
+ */
+function formatPending(pending: PendingConnectionStatus | null) {
+  if (!pending) return null;
+  return {
+    status: pending.status,
+    createdAt: new Date(pending.createdAt).toISOString(),
+    expiresAt: new Date(pending.expiresAt).toISOString(),
+  };
+}
 
 export const status = tool({
-  description: 'Check the current Nostr authentication status. Returns whether a connection is established, the connected user pubkey/npub, and the relays being used.',
+  description: 'Check the current Nostr authentication status. Returns whether a connection is established, the connected user pubkey/npub, the active signer backend (nip46 or local), the transport relays used to reach the signer, the outbox relays (NIP-65 relay list) events are published to, the state of any pending QR code connection (pending, approved or expired), the health of each relay (connection state, last error, latency; the signer relays are probed), and the Shakespeare AI providers with their base URLs and cached model counts.',
   args: {},
   async execute() {
-    const signer = getSigner();
+    const profile = resolveProfile();
+    const signer = await getSyncedSigner();
     const signerStatus = signer.getStatus();
+    const profileInfo = {
+      name: profile.name,
+      source: profile.source,
+      pinnedBy: profile.pinnedBy,
+    };
 
     if (signerStatus.connected) {
       return JSON.stringify({
         connected: true,
+        profile: profileInfo,
         userPubkey: signerStatus.userPubkey,
         npub: signerStatus.npub,
         relays: signerStatus.relays,
+        outboxRelays: formatOutbox(signerStatus.outbox),
+        backend: signerStatus.backend,
+        locked: signerStatus.locked,
+        clientKeyEncrypted: signerStatus.clientKeyEncrypted,
+        permissions: signerStatus.permissions,
+        pendingConnection: formatPending(signerStatus.pendingConnection),
+        storageError: signerStatus.storageError,
         configDir: getConfigDir(),
+        relayHealth: await signer.checkRelays(),
+        config: configInfo(),
+        providers: providersInfo(),
       }, null, 2);
     } else {
       return JSON.stringify({
         connected: false,
-        message: 'Not connected. Use shakespeare_connect to authenticate via NIP-46 remote signing.',
+        profile: profileInfo,
+        message: signerStatus.storageError
+          ? `Stored credentials could not be loaded: ${signerStatus.storageError}`
+          : signerStatus.pendingConnection?.status === 'pending'
+            ? 'Waiting for the signer to approve. Run shakespeare_complete once approved.'
+            : 'Not connected. Use shakespeare_connect to authenticate via NIP-46 remote signing.',
+        pendingConnection: formatPending(signerStatus.pendingConnection),
         configDir: getConfigDir(),
+        relayHealth: await signer.checkRelays(),
+        config: configInfo(),
+        providers: providersInfo(),
       }, null, 2);
     }
   },
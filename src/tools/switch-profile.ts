@@ -0,0 +1,44 @@
+/**
+ * shakespeare_switch_profile tool
+ * Switch the globally active identity profile
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { nip19 } from 'nostr-tools';
+import { createProfile, isValidProfileName, loadAuthState, profileExists, saveActiveProfile } from '../storage.js';
+import { resolveProfile } from '../profiles.js';
+
+export const switchProfile = tool({
+  description: 'Switch the globally active Nostr identity profile. Creates the profile if it does not exist yet; run shakespeare_connect afterwards to connect it. Projects that pin a profile (via .shakespeare-profile or provider.shakespeare.options.profile in opencode.json) keep using their pinned profile.',
+  args: {
+    name: tool.schema.string().describe('Profile name (letters, numbers, "-" and "_"). Use "default" for the original profile.'),
+  },
+  async execute(args) {
+    const name = args.name.trim();
+
+    if (!isValidProfileName(name)) {
+      return `Invalid profile name "${name}". Use letters, numbers, "-" and "_".`;
+    }
+
+    const created = !profileExists(name);
+    if (created) {
+      createProfile(name);
+    }
+    saveActiveProfile(name);
+
+    const state = loadAuthState(name);
+    const lines = [
+      created ? `Created and switched to profile "${name}".` : `Switched to profile "${name}".`,
+      state
+        ? `Connected as ${nip19.npubEncode(state.userPubkey)}.`
+        : 'This profile is not connected yet. Run shakespeare_connect to connect it.',
+    ];
+
+    const current = resolveProfile();
+    if (current.name !== name) {
+      lines.push(`Note: this project is pinned to profile "${current.name}" by ${current.pinnedBy}, so it will keep using that profile here.`);
+    }
+
+    return lines.join('\n');
+  },
+});
@@ -0,0 +1,102 @@
+/**
+ * shakespeare_topup tool
+ * Buy Shakespeare AI credits with a Lightning payment through Nostr Wallet Connect
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { getSyncedSigner } from '../signer.js';
+import { PASSPHRASE_ENV } from '../backends.js';
+import { loadAuthState } from '../storage.js';
+import { loadGlobalConfig } from '../config.js';
+import { fetchBalance, requestInvoice, type CreditInvoice } from '../credits.js';
+import { createNip98Fetch, getShakespeareProvider } from '../provider.js';
+import { displayQRCode, formatInvoiceInstructions } from '../qrcode.js';
+import { WalletError, checkInvoiceQuote, invoiceAmountSats, payInvoice, reserveTopup, settleTopup, unlockWallet } from '../wallet.js';
+
+export const topup = tool({
+  description: `Buy Shakespeare AI credits. Requests a Lightning invoice from the Shakespeare API and pays it from the wallet added with shakespeare_wallet, within the configured per-top-up and daily limits (wallet.maxTopupSats and wallet.dailyLimitSats in the config file). The wallet secret is decrypted with the passphrase argument or ${PASSPHRASE_ENV}. Without a wallet, or when a limit would be exceeded, returns the invoice as a QR code to pay by hand.`,
+  args: {
+    amount: tool.schema.number().describe('Credits to buy, in USD'),
+    passphrase: tool.schema.string().optional().describe(`Passphrase for the stored wallet connection (default: ${PASSPHRASE_ENV})`),
+  },
+  async execute(args, context) {
+    const signer = await getSyncedSigner();
+    const profile = signer.getProfile();
+
+    if (!(args.amount > 0)) {
+      return JSON.stringify({ error: 'Amount must be a positive number of USD' });
+    }
+    if (!signer.isConnected()) {
+      return JSON.stringify({ error: 'Not connected. Use shakespeare_connect first.' });
+    }
+
+    // The API and the spending limits come from the global config only, so
+    // a project can't send payments to its own server or raise the limits
+    let config: ReturnType<typeof loadGlobalConfig>;
+    try {
+      config = loadGlobalConfig();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: message });
+    }
+
+    const fetchFn = createNip98Fetch(getShakespeareProvider(config));
+    let quote: CreditInvoice;
+    try {
+      quote = await requestInvoice(fetchFn, config.provider.baseURL, args.amount, context.abort);
+      // Throws if it isn't a Lightning invoice at all
+      invoiceAmountSats(quote.invoice);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ error: `Failed to get an invoice: ${message}` });
+    }
+
+    const { invoice } = quote;
+
+    /** Show the invoice to pay by hand */
+    const payManually = async (reason: string) => formatInvoiceInstructions(
+      invoice,
+      await displayQRCode(`lightning:${invoice}`, { small: true }),
+      reason
+    );
+
+    const stored = loadAuthState(profile)?.wallet;
+    if (!stored) {
+      return payManually('No wallet is set up (add one with shakespeare_wallet).');
+    }
+
+    let amountSats: number;
+    let secretKey: Uint8Array;
+    let reservation: string;
+    try {
+      amountSats = checkInvoiceQuote(quote, args.amount);
+      secretKey = unlockWallet(stored, args.passphrase || process.env[PASSPHRASE_ENV]);
+      reservation = await reserveTopup(profile, amountSats, config.wallet);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return payManually(`Not paid from your wallet: ${message}`);
+    }
+
+    try {
+      const preimage = await payInvoice(stored, secretKey, invoice);
+      await settleTopup(reservation, 'paid');
+
+      const balance = await fetchBalance(fetchFn, config.provider.baseURL, context.abort).catch(() => null);
+      return JSON.stringify({
+        paid: true,
+        amountUsd: args.amount,
+        amountSats,
+        preimage,
+        balanceUsd: balance?.balance ?? null,
+      }, null, 2);
+    } catch (error) {
+      // A timed out payment may still go through, so it keeps counting
+      // toward the daily limit
+      if (!(error instanceof WalletError && error.code === 'timeout')) {
+        await settleTopup(reservation, 'failed');
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return JSON.stringify({ paid: false, amountSats, error: message, invoice }, null, 2);
+    }
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * shakespeare_unlock tool
+ * Unlock a local NIP-49 encrypted key, or an encrypted NIP-46 client key,
+ * for the current session
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { getSyncedSigner } from '../signer.js';
+import { PASSPHRASE_ENV } from '../backends.js';
+
+export const unlock = tool({
+  description: `Unlock the local ncryptsec key, or a NIP-46 client key stored encrypted, with its passphrase for the rest of this session. Only needed when shakespeare_status reports locked: true and ${PASSPHRASE_ENV} is not set. The decrypted key is kept in memory only.`,
+  args: {
+    passphrase: tool.schema.string().describe('Passphrase for the encrypted key'),
+  },
+  async execute(args) {
+    const signer = await getSyncedSigner();
+
+    if (!signer.isConnected()) {
+      return 'Not connected, so there is no key to unlock. shakespeare_unlock unlocks a local key ' +
+        '(shakespeare_connect with an ncryptsec) or a NIP-46 client key stored encrypted ' +
+        `(shakespeare_connect with encrypt). Set ${PASSPHRASE_ENV} to unlock either automatically in new sessions.`;
+    }
+
+    try {
+      return signer.unlock(args.passphrase);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return `Unlock failed: ${message}`;
+    }
+  },
+});
@@ -0,0 +1,75 @@
+/**
+ * shakespeare_usage tool
+ * Summarise Shakespeare AI token usage and spend from the local ledger
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { loadConfigOrDefault } from '../config.js';
+import { usd } from '../format.js';
+import { getUsageLedgerPath, readUsageLedger, summarizeUsage, totalUsage } from '../ledger.js';
+import type { UsagePricing, UsageSummary } from '../ledger.js';
+import { loadModelCache, toProviderModels } from '../models.js';
+import type { ModelConfig } from '../models.js';
+import { getShakespeareProviders } from '../provider.js';
+
+/**
+ * Price entries against the cached model list of the provider that served
+ * them. An invalid config falls back to the built-in providers; entries from
+ * a provider no longer in the config can't be priced from metadata.
+ */
+function loadPricing(): UsagePricing {
+  const pricing = new Map<string, Record<string, ModelConfig['cost']>>();
+  for (const provider of getShakespeareProviders(loadConfigOrDefault())) {
+    const cache = loadModelCache(provider.baseURL);
+    const models: Record<string, ModelConfig['cost']> = {};
+    for (const [id, model] of Object.entries(cache ? toProviderModels(cache.models) : {})) {
+      models[id] = model.cost;
+    }
+    pricing.set(provider.id, models);
+  }
+  return entry => pricing.get(entry.provider)?.[entry.model];
+}
+
+/**
+ * Format summaries for output
+ */
+function formatGroups(groups: UsageSummary[], limit: number) {
+  return groups.slice(0, limit).map(group => ({ ...group, cost: usd(group.cost) }));
+}
+
+export const usage = tool({
+  description: 'Summarise Shakespeare AI token usage and spend recorded by this machine, per OpenCode session, project, provider, model and agent. Costs come from the API when it reports them, otherwise from the model pricing metadata (see shakespeare_models). Use it to see which sessions and agents use the most budget.',
+  args: {
+    days: tool.schema.number().optional().describe('Number of days to include (default: 30)'),
+    session: tool.schema.string().optional().describe('Only this session id, or "current" for this session'),
+    project: tool.schema.string().optional().describe('Only this project directory, or "current" for this project'),
+    provider: tool.schema.string().optional().describe('Only this provider id (shakespeare, or a provider from the config file)'),
+    model: tool.schema.string().optional().describe('Only this model id'),
+    limit: tool.schema.number().optional().describe('Maximum number of groups per breakdown (default: 10)'),
+  },
+  async execute(args, context) {
+    const days = Math.max(1, args.days ?? 30);
+    const entries = readUsageLedger({
+      since: Date.now() - days * 24 * 60 * 60 * 1000,
+      sessionId: args.session === 'current' ? context.sessionID : args.session,
+      project: args.project === 'current' ? process.cwd() : args.project,
+      provider: args.provider,
+      model: args.model,
+    });
+    const pricing = loadPricing();
+
+    const limit = args.limit ?? 10;
+    const { key: _key, ...total } = totalUsage(entries, pricing);
+
+    return JSON.stringify({
+      ledgerFile: getUsageLedgerPath(),
+      days,
+      total: { ...total, cost: usd(total.cost) },
+      bySession: formatGroups(summarizeUsage(entries, 'session', pricing), limit),
+      byProject: formatGroups(summarizeUsage(entries, 'project', pricing), limit),
+      byProvider: formatGroups(summarizeUsage(entries, 'provider', pricing), limit),
+      byModel: formatGroups(summarizeUsage(entries, 'model', pricing), limit),
+      byAgent: formatGroups(summarizeUsage(entries, 'agent', pricing), limit),
+    }, null, 2);
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * shakespeare_wallet tool
+ * Add or remove the Nostr Wallet Connect (NIP-47) wallet used by shakespeare_topup
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { getSyncedSigner } from '../signer.js';
+import { PASSPHRASE_ENV } from '../backends.js';
+import { loadAuthState, updateAuthState } from '../storage.js';
+import { loadConfig } from '../config.js';
+import { encodeWallet, getDailySpendSats } from '../wallet.js';
+
+export const wallet = tool({
+  description: `Add, replace or remove the Nostr Wallet Connect (NIP-47) wallet that shakespeare_topup pays Lightning invoices from. The connection string is stored with the profile's credentials, its secret encrypted with a passphrase (the passphrase argument or ${PASSPHRASE_ENV}). Without arguments, shows the current wallet and spending limits.`,
+  args: {
+    connection: tool.schema.string().optional().describe('nostr+walletconnect:// connection string from your wallet (Alby, Mutiny, Primal, ...)'),
+    passphrase: tool.schema.string().optional().describe(`Passphrase to encrypt the connection secret with (default: ${PASSPHRASE_ENV})`),
+    remove: tool.schema.boolean().optional().describe('Remove the stored wallet'),
+  },
+  async execute(args) {
+    const signer = await getSyncedSigner();
+    const profile = signer.getProfile();
+
+    if (!signer.isConnected()) {
+      return 'Not connected. Use shakespeare_connect first; the wallet is stored with your credentials.';
+    }
+
+    try {
+      if (args.remove) {
+        let removed = false;
+        await updateAuthState(profile, state => {
+          if (!state?.wallet) return null;
+          removed = true;
+          const { wallet: _wallet, ...rest } = state;
+          return rest;
+        });
+        return removed ? `Wallet removed from profile "${profile}".` : `No wallet stored for profile "${profile}".`;
+      }
+
+      if (args.connection) {
+        const passphrase = args.passphrase || process.env[PASSPHRASE_ENV];
+        if (!passphrase) {
+          return `A passphrase is needed to encrypt the wallet connection. Pass one, or set ${PASSPHRASE_ENV}.`;
+        }
+        const stored = encodeWallet(args.connection, passphrase);
+        await updateAuthState(profile, state => state ? { ...state, wallet: stored } : null);
+      }
+
+      const current = loadAuthState(profile)?.wallet ?? null;
+      const { wallet: limits } = loadConfig();
+
+      return JSON.stringify({
+        profile,
+        wallet: current
+          ? {
+            walletPubkey: current.walletPubkey,
+            relays: current.relays,
+            lud16: current.lud16 ?? null,
+            addedAt: new Date(current.addedAt).toISOString(),
+          }
+          : null,
+        limits: {
+          ...limits,
+          spentLast24hSats: getDailySpendSats(),
+        },
+        ...(args.connection ? { message: 'Wallet saved. shakespeare_topup will pay invoices from it.' } : {}),
+      }, null, 2);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return `Wallet update failed: ${message}`;
+    }
+  },
+});
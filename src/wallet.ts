@@ -0,0 +1,314 @@
+/**
+ * NIP-47 Nostr Wallet Connect
+ *
+ * Pays Lightning invoices for Shakespeare AI credits through the user's
+ * wallet service. The connection secret is stored with the auth state,
+ * encrypted with a passphrase (NIP-49). Every payment is recorded in
+ * <config dir>/topups.json so shakespeare_topup can enforce a daily cap
+ * across sessions.
+ */
+
+import { hexToBytes } from '@noble/hashes/utils';
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { nip47, type Event } from 'nostr-tools';
+import { decrypt as decryptKey, encrypt as encryptKey } from 'nostr-tools/nip49';
+import { decrypt as nip04Decrypt } from 'nostr-tools/nip04';
+import { SimplePool } from 'nostr-tools/pool';
+import { PASSPHRASE_ENV } from './backends.js';
+import { getConfigDir } from './config.js';
+import { readJsonFile, withFileLock, writeFileAtomic } from './files.js';
+import type { StoredWallet } from './storage.js';
+import type { CreditInvoice } from './credits.js';
+
+/** NIP-47 wallet response */
+const NWC_RESPONSE_KIND = 23195;
+
+/** How long to wait for the wallet service to pay an invoice */
+export const PAYMENT_TIMEOUT = 60 * 1000;
+
+/** Window for the daily spending cap (24 hours) */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Top-up records older than this are dropped from topups.json */
+const TOPUP_RETENTION_MS = 30 * DAY_MS;
+
+/** Reason a wallet operation failed */
+export type WalletErrorCode =
+  | 'invalid_connection'
+  | 'locked'
+  | 'invalid_invoice'
+  | 'limit_exceeded'
+  | 'timeout'
+  | 'payment_failed';
+
+/**
+ * Structured error for wallet operations
+ */
+export class WalletError extends Error {
+  constructor(readonly code: WalletErrorCode, message: string) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+/**
+ * Parse a nostr+walletconnect:// connection string and encrypt its secret
+ * @throws WalletError if the connection string is invalid
+ */
+export function encodeWallet(connectionString: string, passphrase: string): StoredWallet {
+  let connection: ReturnType<typeof nip47.parseConnectionString>;
+  try {
+    connection = nip47.parseConnectionString(connectionString.trim());
+    if (!/^[0-9a-f]{64}$/.test(connection.pubkey) || !/^[0-9a-f]{64}$/.test(connection.secret)) {
+      throw new Error('bad key');
+    }
+  } catch {
+    throw new WalletError(
+      'invalid_connection',
+      'Invalid wallet connection. Expected nostr+walletconnect://<wallet pubkey>?relay=wss://...&secret=<hex>'
+    );
+  }
+
+  // Read from the URL: a connection string may list several relays
+  const params = new URL(connectionString.trim()).searchParams;
+  const relays = params.getAll('relay').filter(url => url.startsWith('wss://') || url.startsWith('ws://'));
+  if (relays.length === 0) {
+    throw new WalletError('invalid_connection', 'The wallet connection has no relay');
+  }
+
+  const lud16 = params.get('lud16');
+
+  return {
+    walletPubkey: connection.pubkey,
+    relays,
+    secret: encryptKey(hexToBytes(connection.secret), passphrase),
+    ...(lud16 ? { lud16 } : {}),
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * Decrypt a stored wallet's connection secret
+ * @throws WalletError if no passphrase is given or it is wrong
+ */
+export function unlockWallet(wallet: StoredWallet, passphrase: string | undefined): Uint8Array {
+  if (!passphrase) {
+    throw new WalletError('locked', `The wallet connection is encrypted. Pass the passphrase or set ${PASSPHRASE_ENV}.`);
+  }
+  try {
+    return decryptKey(wallet.secret, passphrase);
+  } catch {
+    throw new WalletError('locked', 'Failed to decrypt the wallet connection. Check the passphrase.');
+  }
+}
+
+/** Millisats per unit of each BOLT-11 amount multiplier */
+const MSAT_PER_UNIT: Record<string, number> = {
+  '': 100_000_000_000,
+  m: 100_000_000,
+  u: 100_000,
+  n: 100,
+  p: 0.1,
+};
+
+/**
+ * Read the amount of a BOLT-11 invoice
+ * @returns The amount in sats (rounded up), or null if the invoice has no amount
+ * @throws WalletError if it isn't a Lightning invoice
+ */
+export function invoiceAmountSats(invoice: string): number | null {
+  const bolt11 = invoice.trim().toLowerCase().replace(/^lightning:/, '');
+  const hrp = bolt11.slice(0, bolt11.lastIndexOf('1'));
+  const match = hrp.match(/^ln(?:bcrt|bc|tbs|tb)(?:(\d+)([munp]?))?$/);
+  if (!match) {
+    throw new WalletError('invalid_invoice', 'The Shakespeare API did not return a Lightning invoice');
+  }
+  if (!match[1]) return null;
+  return Math.ceil((Number(match[1]) * MSAT_PER_UNIT[match[2]]) / 1000);
+}
+
+/**
+ * Check that an invoice is for the credits asked for and charges the price
+ * quoted for them, before paying it automatically
+ * @param amountUsd - Credits asked for, in USD
+ * @returns The invoice amount in sats
+ * @throws WalletError if the invoice has no amount or doesn't match the quote
+ */
+export function checkInvoiceQuote(quote: CreditInvoice, amountUsd: number): number {
+  if (quote.amount !== amountUsd) {
+    throw new WalletError('invalid_invoice', `The invoice is for $${quote.amount} of credits, not the $${amountUsd} asked for.`);
+  }
+  const amountSats = invoiceAmountSats(quote.invoice);
+  if (amountSats === null) {
+    throw new WalletError('invalid_invoice', 'The invoice has no amount, so it can\'t be checked against the quote and the spending limits.');
+  }
+  if (amountSats !== quote.sats) {
+    throw new WalletError('invalid_invoice', `The invoice charges ${amountSats} sats, but ${quote.sats} sats were quoted for $${amountUsd}.`);
+  }
+  return amountSats;
+}
+
+/**
+ * Pay an invoice through the wallet service
+ * @returns The payment preimage
+ * @throws WalletError if the wallet refuses or doesn't answer in time
+ */
+export async function payInvoice(
+  wallet: StoredWallet,
+  secretKey: Uint8Array,
+  invoice: string,
+  timeoutMs: number = PAYMENT_TIMEOUT
+): Promise<string> {
+  const pool = new SimplePool();
+  const request = await nip47.makeNwcRequestEvent(wallet.walletPubkey, secretKey, invoice);
+
+  try {
+    const response = await new Promise<Event>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        sub.close();
+        reject(new WalletError(
+          'timeout',
+          `The wallet did not answer within ${Math.round(timeoutMs / 1000)} seconds. The invoice may still be paid; check your wallet before retrying.`
+        ));
+      }, timeoutMs);
+
+      // Subscribe before publishing so a fast response isn't missed
+      const sub = pool.subscribe(
+        wallet.relays,
+        { kinds: [NWC_RESPONSE_KIND], authors: [wallet.walletPubkey], '#e': [request.id] },
+        {
+          onevent(event) {
+            clearTimeout(timer);
+            sub.close();
+            resolve(event);
+          },
+        }
+      );
+
+      Promise.any(pool.publish(wallet.relays, request)).catch(() => {
+        clearTimeout(timer);
+        sub.close();
+        reject(new WalletError('payment_failed', `Could not reach the wallet relays (${wallet.relays.join(', ')})`));
+      });
+    });
+
+    let body: { result?: { preimage?: string }; error?: { code?: string; message?: string } };
+    try {
+      body = JSON.parse(nip04Decrypt(secretKey, wallet.walletPubkey, response.content));
+    } catch {
+      throw new WalletError('payment_failed', 'The wallet sent a response that could not be decrypted');
+    }
+
+    if (body.error) {
+      throw new WalletError('payment_failed', `The wallet refused the payment: ${body.error.message || body.error.code || 'unknown error'}`);
+    }
+    if (!body.result?.preimage) {
+      throw new WalletError('payment_failed', 'The wallet response has no payment preimage');
+    }
+    return body.result.preimage;
+  } finally {
+    pool.destroy();
+  }
+}
+
+/**
+ * A payment made (or attempted) by shakespeare_topup
+ */
+export interface TopupRecord {
+  id: string;
+  /** Unix timestamp (ms) */
+  timestamp: number;
+  profile: string;
+  amountSats: number;
+  /** Pending payments count toward the daily cap until settled */
+  status: 'pending' | 'paid' | 'failed';
+}
+
+/**
+ * Spending caps for wallet top-ups
+ */
+export interface TopupLimits {
+  maxTopupSats: number;
+  dailyLimitSats: number;
+}
+
+/**
+ * Get the top-up log file path
+ */
+export function getTopupLogPath(): string {
+  return join(getConfigDir(), 'topups.json');
+}
+
+/**
+ * Read the top-up records, dropping ones past retention
+ * @throws Error if the log exists but can't be read, so the caps can't be bypassed
+ */
+function readTopups(): TopupRecord[] {
+  const path = getTopupLogPath();
+  const result = readJsonFile<TopupRecord[]>(path);
+  if (result.status === 'missing') return [];
+  if (result.status !== 'ok' || !Array.isArray(result.data)) {
+    throw new Error(`Cannot read the top-up log ${path}. Fix or delete it to make payments again.`);
+  }
+  const cutoff = Date.now() - TOPUP_RETENTION_MS;
+  return result.data.filter(record => record.timestamp >= cutoff);
+}
+
+/**
+ * Sum the sats paid (or being paid) from the wallet in the last 24 hours
+ */
+export function getDailySpendSats(): number {
+  const since = Date.now() - DAY_MS;
+  return readTopups()
+    .filter(record => record.timestamp >= since && record.status !== 'failed')
+    .reduce((sum, record) => sum + record.amountSats, 0);
+}
+
+/**
+ * Check a payment against the spending caps and record it as pending.
+ * Runs under the log's lock, so concurrent sessions can't both pass the cap.
+ * @returns The record id, to settle once the payment finishes
+ * @throws WalletError if the payment would exceed a cap
+ */
+export async function reserveTopup(profile: string, amountSats: number, limits: TopupLimits): Promise<string> {
+  const path = getTopupLogPath();
+  return withFileLock(path, () => {
+    if (amountSats > limits.maxTopupSats) {
+      throw new WalletError(
+        'limit_exceeded',
+        `${amountSats} sats is over the ${limits.maxTopupSats} sat limit per top-up (wallet.maxTopupSats).`
+      );
+    }
+
+    const records = readTopups();
+    const since = Date.now() - DAY_MS;
+    const spent = records
+      .filter(record => record.timestamp >= since && record.status !== 'failed')
+      .reduce((sum, record) => sum + record.amountSats, 0);
+
+    if (spent + amountSats > limits.dailyLimitSats) {
+      throw new WalletError(
+        'limit_exceeded',
+        `Paying ${amountSats} sats would exceed the daily limit of ${limits.dailyLimitSats} sats ` +
+        `(${spent} sats paid in the last 24 hours, wallet.dailyLimitSats).`
+      );
+    }
+
+    const id = randomUUID();
+    records.push({ id, timestamp: Date.now(), profile, amountSats, status: 'pending' });
+    writeFileAtomic(path, JSON.stringify(records, null, 2));
+    return id;
+  });
+}
+
+/**
+ * Record how a reserved payment ended
+ */
+export async function settleTopup(id: string, status: 'paid' | 'failed'): Promise<void> {
+  const path = getTopupLogPath();
+  await withFileLock(path, () => {
+    const records = readTopups().map(record => record.id === id ? { ...record, status } : record);
+    writeFileAtomic(path, JSON.stringify(records, null, 2));
+  });
+}
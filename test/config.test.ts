@@ -0,0 +1,90 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CONFIG_DIR_ENV, ConfigError, DEFAULT_CONFIG, loadConfig, loadConfigOrDefault, loadGlobalConfig, loadGlobalConfigOrDefault } from '../src/config.js';
+
+let root: string;
+let configDir: string;
+let projectDir: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'shakespeare-config-'));
+  configDir = join(root, 'config');
+  projectDir = join(root, 'project');
+  mkdirSync(configDir);
+  mkdirSync(projectDir);
+  process.env[CONFIG_DIR_ENV] = configDir;
+});
+
+afterEach(() => {
+  delete process.env[CONFIG_DIR_ENV];
+  rmSync(root, { recursive: true, force: true });
+});
+
+function writeJson(file: string, data: unknown): void {
+  writeFileSync(file, JSON.stringify(data));
+}
+
+test('wallet limits are read from the global config', () => {
+  writeJson(join(configDir, 'config.json'), { wallet: { maxTopupSats: 1000, dailyLimitSats: 5000 } });
+
+  assert.deepEqual(loadGlobalConfig().wallet, { maxTopupSats: 1000, dailyLimitSats: 5000 });
+  assert.deepEqual(loadConfig(projectDir).wallet, { maxTopupSats: 1000, dailyLimitSats: 5000 });
+});
+
+test('a project config cannot raise the wallet limits', () => {
+  writeJson(join(configDir, 'config.json'), { wallet: { maxTopupSats: 1000, dailyLimitSats: 5000 } });
+  writeJson(join(projectDir, '.shakespeare.json'), { wallet: { maxTopupSats: 1e9, dailyLimitSats: 1e9 } });
+
+  assert.throws(() => loadConfig(projectDir), (error: unknown) => {
+    assert.ok(error instanceof ConfigError);
+    assert.deepEqual(error.issues.map(issue => issue.field), ['wallet']);
+    return true;
+  });
+  assert.deepEqual(loadGlobalConfig().wallet, { maxTopupSats: 1000, dailyLimitSats: 5000 });
+});
+
+test('a project config without a wallet section keeps the default limits', () => {
+  writeJson(join(projectDir, '.shakespeare.json'), { deploy: { host: 'staging.example.com' } });
+
+  const config = loadConfig(projectDir);
+  assert.equal(config.deploy.host, 'staging.example.com');
+  assert.deepEqual(config.wallet, DEFAULT_CONFIG.wallet);
+  assert.deepEqual(loadGlobalConfig().wallet, DEFAULT_CONFIG.wallet);
+});
+
+test('a project config cannot add relays to authenticate to', () => {
+  writeJson(join(configDir, 'config.json'), { relayAuth: { relays: ['wss://private.example.com'] } });
+  writeJson(join(projectDir, '.shakespeare.json'), { relayAuth: { relays: ['wss://evil.example'] } });
+
+  assert.throws(() => loadConfig(projectDir), ConfigError);
+  assert.deepEqual(loadGlobalConfig().relayAuth.relays, ['wss://private.example.com']);
+});
+
+test('GRASP servers from a project config are not in the global config', () => {
+  writeJson(join(projectDir, '.shakespeare.json'), { ngit: { graspServers: ['wss://evil.example'] } });
+
+  assert.deepEqual(loadConfig(projectDir).ngit.graspServers, ['wss://evil.example']);
+  assert.deepEqual(loadGlobalConfig().ngit.graspServers, DEFAULT_CONFIG.ngit.graspServers);
+});
+
+test('relay list indexers default to the built-in list and can be replaced', () => {
+  assert.deepEqual(loadConfig(projectDir).outbox.indexers, ['wss://purplepag.es', 'wss://relay.nostr.band']);
+
+  writeJson(join(configDir, 'config.json'), { outbox: { indexers: ['wss://indexer.example.com'] } });
+  assert.deepEqual(loadConfig(projectDir).outbox.indexers, ['wss://indexer.example.com']);
+
+  writeJson(join(configDir, 'config.json'), { outbox: { indexers: ['https://indexer.example.com'] } });
+  assert.throws(() => loadConfig(projectDir), /outbox\.indexers\[0\]/);
+});
+
+test('an invalid config falls back to the built-in settings where the error cannot be reported', () => {
+  writeJson(join(projectDir, '.shakespeare.json'), { relays: ['https://relay.example.com'] });
+  assert.deepEqual(loadConfigOrDefault(projectDir), DEFAULT_CONFIG);
+  assert.deepEqual(loadGlobalConfigOrDefault(), DEFAULT_CONFIG);
+
+  writeJson(join(configDir, 'config.json'), { relayAuth: { relays: 'wss://private.example.com' } });
+  assert.deepEqual(loadGlobalConfigOrDefault(), DEFAULT_CONFIG);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchBalance, fetchUsage, requestInvoice } from '../src/credits.js';
+
+const baseURL = 'https://ai.example.com/v1';
+
+/**
+ * A fetch that answers every request with the same JSON body
+ */
+function respondWith(body: unknown): typeof fetch {
+  return async () => Response.json(body);
+}
+
+test('the balance is read from the documented fields', async () => {
+  const balance = await fetchBalance(respondWith({ balance: 12.5, total_credits: 20, total_usage: 7.5 }), baseURL);
+  assert.deepEqual(balance, { balance: 12.5, totalCredits: 20, totalUsage: 7.5 });
+});
+
+test('a balance response of another shape is an error', async () => {
+  await assert.rejects(
+    fetchBalance(respondWith({ data: { amount: 12.5 } }), baseURL),
+    /Unexpected response from \/credits: balance must be a number/
+  );
+});
+
+test('usage entries are read from the data list', async () => {
+  const records = await fetchUsage(respondWith({
+    data: [
+      { created: 1_735_689_600, model: 'm', cost: 0.01, usage: { prompt_tokens: 1200, completion_tokens: 300 } },
+      { created: 1_000, model: 'old', cost: 1, usage: { prompt_tokens: 1, completion_tokens: 1 } },
+    ],
+  }), baseURL, 1_735_000_000_000);
+  assert.deepEqual(records, [{ timestamp: 1_735_689_600_000, model: 'm', cost: 0.01, inputTokens: 1200, outputTokens: 300 }]);
+});
+
+test('a usage entry of another shape is an error', async () => {
+  await assert.rejects(
+    fetchUsage(respondWith({ data: [{ created_at: '2025-01-01T00:00:00Z', model: 'm', cost: 0.01, usage: {} }] }), baseURL, 0),
+    /Unexpected response from \/usage \(data\[0\]\): created must be a number/
+  );
+});
+
+test('an invoice response without an invoice is an error', async () => {
+  await assert.rejects(
+    requestInvoice(respondWith({ payment_request: 'lnbc1', amount: 5, sats: 5000 }), baseURL, 5),
+    /Unexpected response from \/credits\/invoice: invoice must be/
+  );
+  assert.deepEqual(
+    await requestInvoice(respondWith({ invoice: 'lnbc1', amount: 5, sats: 5000 }), baseURL, 5),
+    { invoice: 'lnbc1', amount: 5, sats: 5000 }
+  );
+});
@@ -0,0 +1,119 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LockTimeoutError, PRIVATE_DIR_MODE, PRIVATE_FILE_MODE, withFileLock, writeFileAtomic } from '../src/files.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'shakespeare-files-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Wait for a number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('withFileLock', () => {
+  test('concurrent holders of a lock run one after the other', async () => {
+    const path = join(dir, 'state.json');
+    const events: string[] = [];
+    const hold = (name: string) => withFileLock(path, async () => {
+      events.push(`${name} start`);
+      await delay(50);
+      events.push(`${name} end`);
+      return name;
+    });
+
+    assert.deepEqual(await Promise.all([hold('a'), hold('b')]), ['a', 'b']);
+    // Either may win, but the other only starts once the first has finished
+    const [first, second] = events[0] === 'a start' ? ['a', 'b'] : ['b', 'a'];
+    assert.deepEqual(events, [`${first} start`, `${first} end`, `${second} start`, `${second} end`]);
+    assert.equal(existsSync(`${path}.lock`), false);
+  });
+
+  test('the event loop keeps running while waiting for a lock', async () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(`${path}.lock`, '');
+    setTimeout(() => rmSync(`${path}.lock`), 100);
+
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    try {
+      await withFileLock(path, () => {});
+    } finally {
+      clearInterval(timer);
+    }
+    assert.ok(ticks >= 5, `only ${ticks} timer ticks while waiting`);
+  });
+
+  test('a lock left over by a crashed process is taken over after 30 seconds', async () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(`${path}.lock`, '');
+    const stale = (Date.now() - 31 * 1000) / 1000;
+    utimesSync(`${path}.lock`, stale, stale);
+
+    const started = Date.now();
+    assert.equal(await withFileLock(path, () => 'taken'), 'taken');
+    assert.ok(Date.now() - started < 1000);
+    assert.equal(existsSync(`${path}.lock`), false);
+  });
+
+  test('a lock held by a live process times out', async () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(`${path}.lock`, '');
+
+    let ran = false;
+    await assert.rejects(
+      withFileLock(path, () => { ran = true; }),
+      (error: unknown) => error instanceof LockTimeoutError && error.lockPath === `${path}.lock`
+    );
+    assert.equal(ran, false);
+    // The other process's lock is left alone
+    assert.equal(existsSync(`${path}.lock`), true);
+  });
+
+  test('the lock is released when the function throws', async () => {
+    const path = join(dir, 'state.json');
+    await assert.rejects(withFileLock(path, () => { throw new Error('boom'); }), /boom/);
+    assert.equal(existsSync(`${path}.lock`), false);
+  });
+});
+
+describe('writeFileAtomic', () => {
+  test('creates a private file in a private directory', () => {
+    const path = join(dir, 'profile', 'auth.json');
+    writeFileAtomic(path, '{"a":1}');
+
+    assert.equal(readFileSync(path, 'utf-8'), '{"a":1}');
+    assert.equal(statSync(path).mode & 0o777, PRIVATE_FILE_MODE);
+    assert.equal(statSync(join(dir, 'profile')).mode & 0o777, PRIVATE_DIR_MODE);
+  });
+
+  test('replaces the contents without leaving temp files behind', () => {
+    const path = join(dir, 'auth.json');
+    writeFileAtomic(path, 'old');
+    writeFileAtomic(path, 'new');
+
+    assert.equal(readFileSync(path, 'utf-8'), 'new');
+    assert.deepEqual(readdirSync(dir), ['auth.json']);
+  });
+
+  test('removes the temp file if the file cannot be replaced', () => {
+    // A file can't be renamed over a directory
+    const path = join(dir, 'auth.json');
+    mkdirSync(path);
+    writeFileSync(join(path, 'keep'), '');
+
+    assert.throws(() => writeFileAtomic(path, 'new'));
+    assert.deepEqual(readdirSync(dir), ['auth.json']);
+  });
+});
@@ -0,0 +1,87 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CONFIG_DIR_ENV } from '../src/config.js';
+import { StreamUsageReader, appendUsageEntry, readUsageLedger, recordResponseUsage, requestContextHeaders, summarizeUsage, takeRequestContext } from '../src/ledger.js';
+import type { UsageEntry } from '../src/ledger.js';
+
+let configDir: string;
+
+beforeEach(() => {
+  configDir = mkdtempSync(join(tmpdir(), 'shakespeare-ledger-'));
+  process.env[CONFIG_DIR_ENV] = configDir;
+});
+
+afterEach(() => {
+  delete process.env[CONFIG_DIR_ENV];
+  rmSync(configDir, { recursive: true, force: true });
+});
+
+const events = [
+  'data: {"model":"gpt-test","choices":[{"delta":{"content":"Hi"}}]}',
+  'data: {"model":"gpt-test","choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3,"prompt_tokens_details":{"cached_tokens":4}}}',
+  'data: [DONE]',
+].join('\n\n') + '\n\n';
+
+test('the stream reader keeps the last usage block across split chunks', () => {
+  const reader = new StreamUsageReader();
+  for (let i = 0; i < events.length; i += 7) {
+    reader.push(events.slice(i, i + 7));
+  }
+  assert.deepEqual(reader.finish(), { model: 'gpt-test', promptTokens: 12, completionTokens: 3, cachedTokens: 4, cost: null });
+});
+
+test('request context headers are read and removed', () => {
+  const headers = new Headers({ 'content-type': 'application/json', ...requestContextHeaders({ sessionId: 'ses_1', agent: 'build' }) });
+  assert.deepEqual(takeRequestContext(headers), { sessionId: 'ses_1', agent: 'build' });
+  assert.equal(headers.get('content-type'), 'application/json');
+  assert.equal(headers.has('x-shakespeare-session'), false);
+});
+
+test('streamed completions are recorded with their request context', async () => {
+  const response = recordResponseUsage(
+    new Response(events, { headers: { 'content-type': 'text/event-stream' } }),
+    { profile: 'default', provider: 'homelab', model: null, context: { sessionId: 'ses_1', agent: 'build' } }
+  );
+  assert.equal(await response.text(), events);
+
+  for (let i = 0; i < 50 && readUsageLedger().length === 0; i++) {
+    await sleep(10);
+  }
+  const [entry] = readUsageLedger();
+  assert.equal(entry.sessionId, 'ses_1');
+  assert.equal(entry.agent, 'build');
+  assert.equal(entry.provider, 'homelab');
+  assert.equal(entry.model, 'gpt-test');
+  assert.equal(entry.promptTokens, 12);
+});
+
+test('entries are priced with the pricing of the provider that served them', () => {
+  const base = { timestamp: 0, profile: 'default', sessionId: null, agent: null, project: '/p', model: 'm', promptTokens: 1_000_000, completionTokens: 0, cachedTokens: 0, cost: null };
+  const entries: UsageEntry[] = [
+    { ...base, provider: 'shakespeare' },
+    { ...base, provider: 'homelab' },
+    { ...base, provider: 'removed' },
+  ];
+  const pricing: Record<string, number> = { shakespeare: 2, homelab: 0.5 };
+
+  const groups = summarizeUsage(entries, 'provider', entry => {
+    const input = pricing[entry.provider];
+    return input === undefined ? undefined : { input, output: 0 };
+  });
+  assert.deepEqual(groups.map(group => [group.key, group.cost, group.unpriced]), [
+    ['shakespeare', 2, 0],
+    ['homelab', 0.5, 0],
+    ['removed', null, 1],
+  ]);
+});
+
+test('entries written before providers were recorded belong to Shakespeare AI', () => {
+  appendUsageEntry({ timestamp: 1, profile: 'default', sessionId: null, agent: null, project: '/p', model: 'm', promptTokens: 1, completionTokens: 1, cachedTokens: 0, cost: null } as unknown as UsageEntry);
+
+  assert.equal(readUsageLedger()[0].provider, 'shakespeare');
+  assert.equal(readUsageLedger({ provider: 'homelab' }).length, 0);
+});
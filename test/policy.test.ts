@@ -0,0 +1,107 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CONFIG_DIR_ENV } from '../src/config.js';
+import { DEFAULT_POLICY, PROTECTED_KINDS, PolicyError, enforcePolicy, evaluatePolicy, getPolicyFilePath } from '../src/policy.js';
+import type { PolicyErrorCode, SigningPolicy, SigningRequest } from '../src/policy.js';
+
+/**
+ * A signing request for an event of a kind
+ */
+function request(kind: number, tool = 'shakespeare_sign_event', tags: string[][] = []): SigningRequest {
+  return { event: { kind, created_at: 0, tags, content: '' }, tool };
+}
+
+/**
+ * Match a PolicyError with a code
+ */
+function policyError(code: PolicyErrorCode) {
+  return (error: unknown) => error instanceof PolicyError && error.code === code;
+}
+
+describe('evaluatePolicy', () => {
+  test('protected kinds are denied unless a rule allows them', () => {
+    assert.deepEqual(PROTECTED_KINDS, [0, 3, 5, 10002]);
+    for (const kind of PROTECTED_KINDS) {
+      const decision = evaluatePolicy(DEFAULT_POLICY, request(kind));
+      assert.equal(decision.action, 'deny', `kind ${kind}`);
+      assert.equal(decision.rule, null);
+    }
+
+    // Not even an allow-everything default lets them through
+    assert.equal(evaluatePolicy({ default: 'allow', rules: [] }, request(3)).action, 'deny');
+
+    const policy: SigningPolicy = { default: 'deny', rules: [{ kinds: [0], action: 'confirm' }] };
+    assert.deepEqual(evaluatePolicy(policy, request(0)), { action: 'confirm', rule: 0, reason: 'matched rules[0]' });
+  });
+
+  test('the first matching rule wins', () => {
+    const policy: SigningPolicy = {
+      default: 'allow',
+      rules: [
+        { kinds: [1], tools: ['shakespeare_deploy'], action: 'allow' },
+        { tags: [{ name: 'p', value: '^f' }], action: 'deny', reason: 'No mentions' },
+        { kinds: [1], action: 'confirm' },
+      ],
+    };
+
+    assert.equal(evaluatePolicy(policy, request(1, 'shakespeare_deploy', [['p', 'ff']])).rule, 0);
+    assert.deepEqual(
+      evaluatePolicy(policy, request(1, 'shakespeare_sign_event', [['p', 'ff']])),
+      { action: 'deny', rule: 1, reason: 'No mentions' }
+    );
+    assert.equal(evaluatePolicy(policy, request(1, 'shakespeare_sign_event', [['p', 'aa']])).rule, 2);
+  });
+
+  test('events no rule matches get the default action', () => {
+    assert.deepEqual(evaluatePolicy(DEFAULT_POLICY, request(1)), { action: 'allow', rule: null, reason: 'default policy' });
+    assert.equal(evaluatePolicy({ default: 'confirm', rules: [{ kinds: [7], action: 'deny' }] }, request(1)).action, 'confirm');
+  });
+});
+
+describe('enforcePolicy', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'shakespeare-policy-'));
+    process.env[CONFIG_DIR_ENV] = configDir;
+  });
+
+  afterEach(() => {
+    delete process.env[CONFIG_DIR_ENV];
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const writePolicy = (policy: unknown) => writeFileSync(getPolicyFilePath(), typeof policy === 'string' ? policy : JSON.stringify(policy));
+
+  test('without a policy file, ordinary kinds are allowed and protected kinds denied', async () => {
+    await enforcePolicy(request(1));
+    await assert.rejects(enforcePolicy(request(0)), policyError('policy_denied'));
+  });
+
+  test('a confirm rule without a way to confirm is refused', async () => {
+    writePolicy({ rules: [{ kinds: [1], action: 'confirm' }] });
+    await assert.rejects(enforcePolicy(request(1)), policyError('confirmation_required'));
+  });
+
+  test('a confirm rule asks the user', async () => {
+    writePolicy({ rules: [{ kinds: [1], action: 'confirm' }] });
+    const asked: number[] = [];
+
+    await enforcePolicy(request(1), async ({ event }) => {
+      asked.push(event.kind);
+      return true;
+    });
+    await assert.rejects(enforcePolicy(request(1), async () => false), policyError('confirmation_rejected'));
+    assert.deepEqual(asked, [1]);
+  });
+
+  test('an invalid policy file refuses every signature', async () => {
+    for (const policy of ['{ not json', { default: 'maybe' }, { rules: [{ action: 'allow', tags: [{ name: 'p', value: '(' }] }] }]) {
+      writePolicy(policy);
+      await assert.rejects(enforcePolicy(request(1), async () => true), policyError('policy_invalid'));
+    }
+  });
+});
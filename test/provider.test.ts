@@ -0,0 +1,93 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { generateSecretKey } from 'nostr-tools/pure';
+import { encrypt } from 'nostr-tools/nip49';
+import { CONFIG_DIR_ENV } from '../src/config.js';
+import { NCRYPTSEC_ENV, PASSPHRASE_ENV } from '../src/backends.js';
+import { readUsageLedger } from '../src/ledger.js';
+import { InsufficientCreditsError, SHAKESPEARE_PROVIDER_ID, createNip98Fetch, trackShakespeareSession } from '../src/provider.js';
+
+const provider = { id: SHAKESPEARE_PROVIDER_ID, name: 'Shakespeare AI', baseURL: 'https://ai.example.com/v1' };
+const realFetch = globalThis.fetch;
+let configDir: string;
+
+before(() => {
+  configDir = mkdtempSync(join(tmpdir(), 'shakespeare-provider-'));
+  process.env[CONFIG_DIR_ENV] = configDir;
+  // Keep the signer off the network
+  writeFileSync(join(configDir, 'config.json'), JSON.stringify({ relays: ['ws://127.0.0.1:9'] }));
+  process.env[PASSPHRASE_ENV] = 'passphrase';
+  process.env[NCRYPTSEC_ENV] = encrypt(generateSecretKey(), 'passphrase');
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+  delete process.env[CONFIG_DIR_ENV];
+  delete process.env[PASSPHRASE_ENV];
+  delete process.env[NCRYPTSEC_ENV];
+  rmSync(configDir, { recursive: true, force: true });
+});
+
+test('the session and agent set by chat.headers reach the ledger but not the API', async () => {
+  const sent: Request[] = [];
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    sent.push(new Request(input, init));
+    const body = 'data: {"model":"m","choices":[],"usage":{"prompt_tokens":10,"completion_tokens":2}}\n\ndata: [DONE]\n\n';
+    return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+  };
+
+  const output = { headers: {} as Record<string, string> };
+  await trackShakespeareSession({ sessionID: 'ses_1', agent: 'plan', model: { providerID: SHAKESPEARE_PROVIDER_ID } }, output);
+
+  const response = await createNip98Fetch(provider)(`${provider.baseURL}/chat/completions`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...output.headers },
+    body: JSON.stringify({ model: 'm', stream: true }),
+  });
+  await response.text();
+
+  assert.equal(sent.length, 1);
+  assert.ok(sent[0].headers.get('authorization')?.startsWith('Nostr '));
+  assert.equal(sent[0].headers.has('x-shakespeare-session'), false);
+  assert.equal(sent[0].headers.has('x-shakespeare-agent'), false);
+
+  for (let i = 0; i < 50 && readUsageLedger().length === 0; i++) {
+    await sleep(10);
+  }
+  const [entry] = readUsageLedger();
+  assert.equal(entry.sessionId, 'ses_1');
+  assert.equal(entry.agent, 'plan');
+  assert.equal(entry.provider, SHAKESPEARE_PROVIDER_ID);
+  assert.equal(entry.promptTokens, 10);
+});
+
+test('requests to other providers are not tagged', async () => {
+  const output = { headers: {} as Record<string, string> };
+  await trackShakespeareSession({ sessionID: 'ses_1', agent: 'plan', model: { providerID: 'anthropic' } }, output);
+  assert.deepEqual(output.headers, {});
+});
+
+test('running out of credits points to shakespeare_topup', async () => {
+  globalThis.fetch = async () => new Response('{"error":"insufficient credits"}', { status: 402 });
+  const shakespeareFetch = createNip98Fetch(provider);
+
+  // Without a wallet the web app is offered as well
+  await assert.rejects(shakespeareFetch('https://ai.example.com/v1/chat/completions', { method: 'POST', body: '{}' }), (error: unknown) => {
+    assert.ok(error instanceof InsufficientCreditsError);
+    assert.match(error.message, /shakespeare_topup/);
+    assert.match(error.message, /shakespeare_wallet/);
+    assert.match(error.message, /https:\/\/shakespeare\.diy/);
+    return true;
+  });
+
+  const withWallet = new InsufficientCreditsError(provider, 402, '', true);
+  assert.match(withWallet.message, /shakespeare_topup/);
+  assert.doesNotMatch(withWallet.message, /shakespeare\.diy/);
+
+  const other = new InsufficientCreditsError({ id: 'local', name: 'Local', baseURL: 'http://localhost:8080/v1' }, 402, '');
+  assert.doesNotMatch(other.message, /shakespeare_topup/);
+});
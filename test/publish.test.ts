@@ -0,0 +1,89 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket, WebSocketServer } from 'ws';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools/pure';
+import { RelayPool } from '../src/relays.js';
+import { publishToRelays } from '../src/publish.js';
+
+let server: WebSocketServer;
+let url: string;
+/** EVENT messages the relay received, by event id */
+const received = new Map<string, number>();
+
+before(async () => {
+  // Node 20 has no global WebSocket
+  globalThis.WebSocket ??= WebSocket as unknown as typeof globalThis.WebSocket;
+
+  // A relay that sends a NOTICE before answering each event. Events whose
+  // content is an OK message prefix (e.g. "invalid:") are rejected with it,
+  // the first time only for "rate-limited:".
+  server = new WebSocketServer({ port: 0 });
+  server.on('connection', socket => {
+    socket.on('message', data => {
+      const [type, event] = JSON.parse(String(data));
+      if (type !== 'EVENT') return;
+      const count = (received.get(event.id) ?? 0) + 1;
+      received.set(event.id, count);
+      const rejected = /^[a-z-]+:/.test(event.content) && !(event.content.startsWith('rate-limited:') && count > 1);
+      socket.send(JSON.stringify(['NOTICE', `got ${event.id.slice(0, 8)}`]));
+      setTimeout(() => socket.send(JSON.stringify(['OK', event.id, !rejected, rejected ? event.content : ''])), 20);
+    });
+  });
+  await new Promise(resolve => server.once('listening', resolve));
+  const address = server.address();
+  url = `ws://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('concurrent publishes to one relay each keep the notices sent while in flight', async () => {
+  const pool = new RelayPool();
+  try {
+    const secretKey = generateSecretKey();
+    const events = [1, 2].map(n => finalizeEvent({ kind: 1, created_at: n, tags: [], content: String(n) }, secretKey));
+
+    const reports = await Promise.all(events.map(event => publishToRelays(pool, [url], event)));
+    const expected = events.map(event => `got ${event.id.slice(0, 8)}`).sort();
+    for (const report of reports) {
+      assert.equal(report.success, 1);
+      assert.deepEqual([...report.relays[0].notices].sort(), expected);
+    }
+
+    // A publish after the others finished only sees its own notice
+    const later = finalizeEvent({ kind: 1, created_at: 3, tags: [], content: '3' }, secretKey);
+    const report = await publishToRelays(pool, [url], later);
+    assert.deepEqual(report.relays[0].notices, [`got ${later.id.slice(0, 8)}`]);
+  } finally {
+    pool.destroy();
+  }
+});
+
+test('rejections are retried only when the relay may accept the event later', async () => {
+  const pool = new RelayPool();
+  try {
+    const secretKey = generateSecretKey();
+    const publish = async (content: string) => {
+      const event = finalizeEvent({ kind: 1, created_at: 4, tags: [], content }, secretKey);
+      const { relays: [result] } = await publishToRelays(pool, [url], event);
+      return { ...result, received: received.get(event.id) };
+    };
+
+    // Including rejections without the space after the prefix, or without a reason
+    for (const content of ['invalid: bad signature', 'invalid:bad signature', 'blocked: not on the allowlist', 'blocked:']) {
+      const result = await publish(content);
+      assert.equal(result.ok, false);
+      assert.equal(result.message, content);
+      assert.equal(result.attempts, 1, content);
+      assert.equal(result.received, 1, content);
+    }
+
+    const limited = await publish('rate-limited: slow down');
+    assert.equal(limited.ok, true);
+    assert.equal(limited.attempts, 2);
+    assert.equal(limited.received, 2);
+  } finally {
+    pool.destroy();
+  }
+});
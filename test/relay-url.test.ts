@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkRelayList, isRelayUrl, normalizeRelayUrl } from '../src/relay-url.js';
+import type { SchemaIssue } from '../src/schema.js';
+
+test('only ws:// and wss:// URLs are relay URLs', () => {
+  assert.equal(isRelayUrl('wss://relay.example.com'), true);
+  assert.equal(isRelayUrl('ws://localhost:7777'), true);
+  assert.equal(isRelayUrl('https://relay.example.com'), false);
+  assert.equal(isRelayUrl('relay.example.com'), false);
+  assert.equal(isRelayUrl(42), false);
+});
+
+test('relay URLs are normalized for comparison', () => {
+  assert.equal(normalizeRelayUrl(' wss://Relay.Example.com/ '), 'wss://relay.example.com');
+  assert.equal(normalizeRelayUrl('wss://relay.example.com/inbox'), 'wss://relay.example.com/inbox');
+  assert.equal(normalizeRelayUrl('https://relay.example.com'), null);
+});
+
+test('a relay list is checked entry by entry', () => {
+  const issues: SchemaIssue[] = [];
+  checkRelayList(['wss://relay.example.com', 'https://relay.example.com'], 'relays', issues);
+  checkRelayList([], 'required', issues);
+  checkRelayList([], 'optional', issues, true);
+  checkRelayList('wss://relay.example.com', 'notAList', issues, true);
+  assert.deepEqual(issues.map(issue => issue.field), ['relays[1]', 'required', 'notAList']);
+});
@@ -0,0 +1,172 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { AUTH_STATE_VERSION, SchemaError, parseAuthState, parsePendingConnection } from '../src/schema.js';
+
+// Keys derived from fixed secrets: client 7f…7f, user 3c…3c, bunker 5a…5a
+const CLIENT_NSEC = 'nsec10alh7lml0alh7lml0alh7lml0alh7lml0alh7lml0alh7lml0alsj7rpl0';
+const CLIENT_PUBKEY = '142715675faf8da1ecc4d51e0b9e539fa0d52fdd96ed60dbe99adb15d6b05ad9';
+const USER_PUBKEY = '6776bee20c9bf74c421e703c23a132f6dbdf6c882c7f6634b128e66820139db1';
+const BUNKER_PUBKEY = '9c5530e4385ebc41cdaf8257edf9a2baaf8506a4099103211e6ed7382103ed67';
+
+// The user key (3c…3c) and client key (7f…7f) encrypted with "passphrase"
+const USER_NCRYPTSEC = 'ncryptsec1qgyv75vwsnjsuunut8284gdnf2gzwczlrd2mx89gzfthv54dslp08mgle2edjy0jhe7s9asekum9hvltjqmm9wh3c46sha2tcrwkv5ft2j5agzkzfsdcr6r0k4r0l38zgyxpt8zj7n3hralfruegpq0p';
+const CLIENT_NCRYPTSEC = 'ncryptsec1qgyf3z708d5ag7482zt4npzkhsqcda6r44cytr09uu6pmnhekp8gmefrqxa8hdtpwgqqyzm5mjh4wl4tdkr8246h6q8jc8yup8893j9etdyw2wf6ns9kal4s4ycv8970ltvgyhp65j9hk2234gduj4xz';
+
+/**
+ * auth.json as written before the version and backend fields existed
+ */
+function baselineAuth(): Record<string, unknown> {
+  return {
+    clientSecretKey: CLIENT_NSEC,
+    clientPubkey: CLIENT_PUBKEY,
+    bunkerPubkey: BUNKER_PUBKEY,
+    userPubkey: USER_PUBKEY,
+    relays: ['wss://relay.nsec.app'],
+    connectedAt: 1700000000000,
+    permissions: ['sign_event'],
+  };
+}
+
+/**
+ * auth.json for a NIP-46 connection as written now
+ */
+function currentNip46Auth(): Record<string, unknown> {
+  return {
+    version: AUTH_STATE_VERSION,
+    backend: 'nip46',
+    clientSecretKey: CLIENT_NCRYPTSEC,
+    clientPubkey: CLIENT_PUBKEY,
+    bunkerPubkey: BUNKER_PUBKEY,
+    userPubkey: USER_PUBKEY,
+    relays: ['wss://relay.nsec.app', 'ws://localhost:7777'],
+    connectedAt: 1760000000000,
+    permissions: ['sign_event:1', 'sign_event:27235', 'nip44_encrypt'],
+    outbox: { read: ['wss://relay.damus.io'], write: ['wss://nos.lol'], fetchedAt: 1760000000000 },
+  };
+}
+
+/**
+ * Collect the fields a SchemaError names
+ */
+function issueFields(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof SchemaError, `expected SchemaError, got ${error}`);
+    return error.issues.map(i => i.field);
+  }
+  assert.fail('expected a SchemaError');
+}
+
+describe('parseAuthState', () => {
+  test('migrates a baseline auth.json to a versioned NIP-46 state', () => {
+    const state = parseAuthState(baselineAuth());
+    assert.deepEqual(state, { ...baselineAuth(), backend: 'nip46', version: AUTH_STATE_VERSION });
+  });
+
+  test('gives a baseline auth.json without permissions the legacy grant', () => {
+    const { permissions: _, ...raw } = baselineAuth();
+    const state = parseAuthState(raw);
+    assert.equal(state.backend, 'nip46');
+    assert.deepEqual(state.backend === 'nip46' && state.permissions, ['sign_event']);
+  });
+
+  test('parses a current NIP-46 auth.json unchanged', () => {
+    assert.deepEqual(parseAuthState(currentNip46Auth()), currentNip46Auth());
+  });
+
+  test('parses a current local-key auth.json unchanged', () => {
+    const raw = {
+      version: AUTH_STATE_VERSION,
+      backend: 'local',
+      ncryptsec: USER_NCRYPTSEC,
+      userPubkey: USER_PUBKEY,
+      relays: [],
+      connectedAt: 1760000000000,
+    };
+    assert.deepEqual(parseAuthState(raw), raw);
+  });
+
+  test('reports every malformed field by name', () => {
+    const raw = {
+      ...currentNip46Auth(),
+      userPubkey: USER_PUBKEY.toUpperCase(),
+      bunkerPubkey: 'abc',
+      relays: ['wss://relay.nsec.app', 'https://relay.example.com'],
+      permissions: ['sign_event', 'Sign Event'],
+      connectedAt: 'yesterday',
+    };
+    assert.deepEqual(issueFields(() => parseAuthState(raw)).sort(), [
+      'bunkerPubkey', 'connectedAt', 'permissions[1]', 'relays[1]', 'userPubkey',
+    ]);
+  });
+
+  test('rejects a client key that does not match clientPubkey', () => {
+    const raw = { ...baselineAuth(), clientPubkey: USER_PUBKEY };
+    assert.throws(() => parseAuthState(raw), (error: unknown) =>
+      error instanceof SchemaError
+      && error.issues.length === 1
+      && error.issues[0].field === 'clientSecretKey'
+      && error.issues[0].problem === 'does not match clientPubkey');
+  });
+
+  test('names malformed outbox and local key fields', () => {
+    const raw = {
+      version: AUTH_STATE_VERSION,
+      backend: 'local',
+      ncryptsec: CLIENT_NSEC,
+      userPubkey: USER_PUBKEY,
+      relays: [],
+      connectedAt: 1760000000000,
+      outbox: { read: ['relay.damus.io'], write: [] },
+    };
+    assert.deepEqual(issueFields(() => parseAuthState(raw)).sort(), [
+      'ncryptsec', 'outbox.fetchedAt', 'outbox.read[0]',
+    ]);
+  });
+
+  test('refuses a file from a newer plugin version', () => {
+    const raw = { ...currentNip46Auth(), version: 99 };
+    assert.deepEqual(issueFields(() => parseAuthState(raw)), ['version']);
+  });
+
+  test('refuses a file that is not a JSON object', () => {
+    assert.deepEqual(issueFields(() => parseAuthState([baselineAuth()])), ['(root)']);
+  });
+});
+
+describe('parsePendingConnection', () => {
+  test('marks a baseline pending.json as expired', () => {
+    const raw = {
+      clientSecretKey: CLIENT_NSEC,
+      clientPubkey: CLIENT_PUBKEY,
+      nostrconnectUri: `nostrconnect://${CLIENT_PUBKEY}?relay=wss%3A%2F%2Frelay.nsec.app`,
+      relays: ['wss://relay.nsec.app'],
+    };
+    assert.deepEqual(parsePendingConnection(raw), {
+      ...raw,
+      permissions: ['sign_event'],
+      status: 'expired',
+      createdAt: 0,
+      expiresAt: 0,
+      version: 1,
+    });
+  });
+
+  test('reports malformed pending fields by name', () => {
+    const raw = {
+      version: 1,
+      clientSecretKey: CLIENT_NSEC,
+      clientPubkey: CLIENT_PUBKEY,
+      nostrconnectUri: 'bunker://nope',
+      relays: [],
+      permissions: ['sign_event'],
+      status: 'waiting',
+      createdAt: 1760000000000,
+      expiresAt: 1760000600000,
+    };
+    assert.deepEqual(issueFields(() => parsePendingConnection(raw)).sort(), [
+      'nostrconnectUri', 'relays', 'status',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CONFIG_DIR_ENV } from '../src/config.js';
+import { WalletError, checkInvoiceQuote, encodeWallet, getDailySpendSats, invoiceAmountSats, reserveTopup, settleTopup } from '../src/wallet.js';
+
+const walletPubkey = 'a'.repeat(64);
+const secret = 'b'.repeat(64);
+
+test('a wallet connection keeps every relay it lists', () => {
+  const wallet = encodeWallet(
+    `nostr+walletconnect://${walletPubkey}?relay=wss://one.example.com&relay=wss://two.example.com&secret=${secret}&lud16=me@example.com`,
+    'passphrase'
+  );
+  assert.equal(wallet.walletPubkey, walletPubkey);
+  assert.deepEqual(wallet.relays, ['wss://one.example.com', 'wss://two.example.com']);
+  assert.equal(wallet.lud16, 'me@example.com');
+  assert.ok(wallet.secret.startsWith('ncryptsec1'));
+});
+
+test('a wallet connection without a relay is rejected', () => {
+  assert.throws(
+    () => encodeWallet(`nostr+walletconnect://${walletPubkey}?secret=${secret}`, 'passphrase'),
+    (error: unknown) => error instanceof WalletError && error.code === 'invalid_connection'
+  );
+});
+
+test('invoice amounts are read from the BOLT-11 prefix', () => {
+  assert.equal(invoiceAmountSats('lnbc50u1pjexample'), 5000);
+  assert.equal(invoiceAmountSats('lightning:LNBC2500N1PJEXAMPLE'), 250);
+  assert.equal(invoiceAmountSats('lnbc1m1pjexample'), 100_000);
+  assert.equal(invoiceAmountSats('lnbc15p1pjexample'), 1);
+  assert.equal(invoiceAmountSats('lntb1pjexample'), null);
+  assert.throws(() => invoiceAmountSats('not-an-invoice'), WalletError);
+});
+
+test('an invoice is only paid if it matches the quote', () => {
+  assert.equal(checkInvoiceQuote({ invoice: 'lnbc50u1pjexample', amount: 5, sats: 5000 }, 5), 5000);
+
+  for (const [quote, amountUsd] of [
+    [{ invoice: 'lnbc50u1pjexample', amount: 5, sats: 4000 }, 5],
+    [{ invoice: 'lnbc50u1pjexample', amount: 50, sats: 5000 }, 5],
+    [{ invoice: 'lnbc1pjexample', amount: 5, sats: 5000 }, 5],
+  ] as const) {
+    assert.throws(
+      () => checkInvoiceQuote(quote, amountUsd),
+      (error: unknown) => error instanceof WalletError && error.code === 'invalid_invoice'
+    );
+  }
+});
+
+describe('top-up reservations', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'shakespeare-wallet-'));
+    process.env[CONFIG_DIR_ENV] = configDir;
+  });
+
+  afterEach(() => {
+    delete process.env[CONFIG_DIR_ENV];
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const limits = { maxTopupSats: 1000, dailyLimitSats: 1500 };
+  const isLimitExceeded = (error: unknown) => error instanceof WalletError && error.code === 'limit_exceeded';
+
+  test('a top-up over the per-top-up limit is refused', async () => {
+    await assert.rejects(async () => reserveTopup('default', 1001, limits), isLimitExceeded);
+    assert.equal(await getDailySpendSats(), 0);
+  });
+
+  test('pending and paid top-ups count toward the daily limit, failed ones do not', async () => {
+    const first = await reserveTopup('default', 1000, limits);
+    await assert.rejects(async () => reserveTopup('default', 600, limits), isLimitExceeded);
+
+    await settleTopup(first, 'failed');
+    const second = await reserveTopup('default', 600, limits);
+    await settleTopup(second, 'paid');
+    assert.equal(await getDailySpendSats(), 600);
+
+    await reserveTopup('default', 900, limits);
+    await assert.rejects(async () => reserveTopup('default', 1, limits), isLimitExceeded);
+  });
+});